@@ -0,0 +1,396 @@
+#!/usr/bin/env node
+import { realpathSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  batch,
+  compareZeroIds,
+  extractPrefix,
+  extractTimestamp,
+  getTimestampRange,
+  parseZeroId,
+  toBuffer,
+  toUUIDv7,
+  zeroIdAt,
+  type ChecksumScheme,
+  type DecodedZeroId,
+  type ZeroIdParseError,
+} from "./index";
+
+export interface CliIO {
+  readStdin(): Promise<string>;
+  write(text: string): void;
+  error(text: string): void;
+}
+
+const USAGE = `Usage: zero-id <command> [options] [ids...]
+
+Commands:
+  gen        Generate IDs
+  decode     Show the creation time, counter, prefix and metadata of IDs
+  validate   Check IDs, exiting with 1 if any is invalid
+  sort       Sort IDs by creation time
+  range      Show the oldest and newest creation time of IDs
+  to-uuid    Convert IDs to UUIDv7
+  to-hex     Convert IDs to their 16-byte binary form as hex
+
+Options:
+  --prefix <prefix>   Prefix of the IDs (detected from "_" when omitted)
+  --checksum [scheme] Add a checksum (gen) or require one; the scheme is
+                      "legacy" or "mod3833" (default: legacy for gen, either
+                      scheme for decode and validate)
+  --json              Print JSON for piping
+  -n, --count <n>     Number of IDs to generate (default: 1)
+  --at <time>         Generate IDs for a timestamp in ms or an ISO date
+  --metadata <json>   Embed a JSON object in generated IDs
+  -h, --help          Show this help
+
+IDs are read from the arguments, or from stdin when none are given.`;
+
+const options = {
+  prefix: { type: "string" },
+  checksum: { type: "string" },
+  json: { type: "boolean" },
+  count: { type: "string", short: "n" },
+  at: { type: "string" },
+  metadata: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Flags = ReturnType<
+  typeof parseArgs<{ options: typeof options; allowPositionals: true }>
+>["values"];
+
+type Command = (ids: string[], flags: Flags, io: CliIO) => number;
+
+const commands: Record<string, Command> = {
+  decode,
+  validate,
+  sort,
+  range,
+  "to-uuid": (ids, flags, io) =>
+    convert(ids, flags, io, (id, prefix) => toUUIDv7(id, prefix)),
+  "to-hex": (ids, flags, io) =>
+    convert(ids, flags, io, (id, prefix) =>
+      Buffer.from(toBuffer(id, prefix)).toString("hex"),
+    ),
+};
+
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  let flags: Flags;
+  let positionals: string[];
+
+  try {
+    ({ values: flags, positionals } = parseArgs({
+      args: expandChecksum(argv),
+      options,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    io.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...args] = positionals;
+
+  if (flags.help) {
+    io.write(USAGE);
+    return 0;
+  }
+
+  if (
+    flags.checksum !== undefined &&
+    flags.checksum !== "true" &&
+    !isChecksumScheme(flags.checksum)
+  ) {
+    io.error(`--checksum must be "legacy" or "mod3833"\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (command !== "gen" && !(command && Object.hasOwn(commands, command))) {
+    io.error(command ? `Unknown command "${command}"\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+
+  try {
+    if (command === "gen") return gen(flags, io);
+
+    const ids =
+      args.length > 0
+        ? args
+        : (await io.readStdin()).split(/\s+/).filter(Boolean);
+
+    if (ids.length === 0) {
+      io.error("No IDs given");
+      return 2;
+    }
+
+    return commands[command]!(ids, flags, io);
+  } catch (error) {
+    io.error(`zero-id: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+function gen(flags: Flags, io: CliIO): number {
+  const count = flags.count === undefined ? 1 : Number(flags.count);
+
+  if (!Number.isInteger(count) || count < 1) {
+    io.error("--count must be a positive integer");
+    return 2;
+  }
+
+  const at = flags.at === undefined ? undefined : parseTime(flags.at);
+
+  if (at !== undefined && Number.isNaN(at)) {
+    io.error("--at must be a timestamp in ms or an ISO date");
+    return 2;
+  }
+
+  const metadata =
+    flags.metadata === undefined ? undefined : parseMetadata(flags.metadata);
+
+  if (metadata === null) {
+    io.error("--metadata must be a JSON object");
+    return 2;
+  }
+
+  const generateOptions = {
+    prefix: flags.prefix,
+    checksum: checksumOf(flags),
+    metadata,
+  };
+  const ids =
+    at === undefined
+      ? batch(count, generateOptions)
+      : Array.from({ length: count }, () => zeroIdAt(at, generateOptions));
+
+  io.write(flags.json ? JSON.stringify(ids) : ids.join("\n"));
+  return 0;
+}
+
+function decode(ids: string[], flags: Flags, io: CliIO): number {
+  const results = ids.map((id) => {
+    const prefix = prefixOf(id, flags);
+    return {
+      id,
+      result: parseZeroId(id, prefix, { checksum: checksumOf(flags) }),
+    };
+  });
+
+  if (flags.json) {
+    io.write(
+      JSON.stringify(
+        results.map(({ id, result }) =>
+          result.ok
+            ? { id, ...result.value }
+            : { id, error: errorJson(result.error) },
+        ),
+        null,
+        2,
+      ),
+    );
+  } else {
+    io.write(
+      results
+        .map(({ id, result }) =>
+          result.ok
+            ? `${id}\n${describe(result.value)}`
+            : `${id}\n  error      ${result.error.message}`,
+        )
+        .join("\n\n"),
+    );
+  }
+
+  return results.every(({ result }) => result.ok) ? 0 : 1;
+}
+
+function describe(decoded: DecodedZeroId): string {
+  const rows: [string, string][] = [
+    ["created", `${decoded.createdAt.toISOString()} (${decoded.timestamp})`],
+    ["counter", String(decoded.counter)],
+    ["prefix", decoded.prefix || "(none)"],
+    ["random", decoded.random],
+    ["checksum", decoded.checksum ?? "(none)"],
+  ];
+
+  if (decoded.version !== undefined) {
+    rows.push(["version", String(decoded.version)]);
+  }
+  if (decoded.nodeId !== undefined) {
+    rows.push(["node", String(decoded.nodeId)]);
+  }
+  if (decoded.metadata !== undefined) {
+    rows.push(["metadata", JSON.stringify(decoded.metadata)]);
+  }
+
+  return rows
+    .map(([label, value]) => `  ${label.padEnd(10)} ${value}`)
+    .join("\n");
+}
+
+function validate(ids: string[], flags: Flags, io: CliIO): number {
+  const results = ids.map((id) => ({
+    id,
+    result: parseZeroId(id, prefixOf(id, flags), {
+      checksum: checksumOf(flags),
+    }),
+  }));
+
+  if (flags.json) {
+    io.write(
+      JSON.stringify(
+        results.map(({ id, result }) =>
+          result.ok
+            ? { id, valid: true }
+            : { id, valid: false, error: errorJson(result.error) },
+        ),
+      ),
+    );
+  } else {
+    io.write(
+      results
+        .map(({ id, result }) =>
+          result.ok
+            ? `valid    ${id}`
+            : `invalid  ${id}  ${result.error.code} at ${result.error.position}`,
+        )
+        .join("\n"),
+    );
+  }
+
+  return results.every(({ result }) => result.ok) ? 0 : 1;
+}
+
+function sort(ids: string[], flags: Flags, io: CliIO): number {
+  const sorted = [...ids].sort((a, b) =>
+    flags.prefix === undefined
+      ? compareZeroIds(a, b, { mixedPrefixes: "ignore" })
+      : compareZeroIds(a, b, flags.prefix),
+  );
+
+  io.write(flags.json ? JSON.stringify(sorted) : sorted.join("\n"));
+  return 0;
+}
+
+function range(ids: string[], flags: Flags, io: CliIO): number {
+  const unprefixed: string[] = [];
+
+  for (const id of ids) {
+    const prefix = prefixOf(id, flags);
+
+    if (extractTimestamp(id, prefix) === null) {
+      io.error(`Skipped invalid ID ${id}`);
+    } else {
+      unprefixed.push(id.slice(prefix.length));
+    }
+  }
+
+  const result = getTimestampRange(unprefixed);
+
+  if (!result) {
+    io.error("No valid IDs given");
+    return 1;
+  }
+
+  if (flags.json) {
+    io.write(JSON.stringify(result));
+  } else {
+    io.write(
+      [
+        `oldest  ${result.oldestDate.toISOString()} (${result.oldest})`,
+        `newest  ${result.newestDate.toISOString()} (${result.newest})`,
+        `span    ${result.span} ms`,
+      ].join("\n"),
+    );
+  }
+
+  return unprefixed.length === ids.length ? 0 : 1;
+}
+
+function convert(
+  ids: string[],
+  flags: Flags,
+  io: CliIO,
+  conversion: (id: string, prefix: string) => string,
+): number {
+  const converted = ids.map((id) => conversion(id, prefixOf(id, flags)));
+
+  io.write(flags.json ? JSON.stringify(converted) : converted.join("\n"));
+  return 0;
+}
+
+function errorJson(error: ZeroIdParseError) {
+  const { code, position, message } = error;
+  return { code, position, message };
+}
+
+function prefixOf(id: string, flags: Flags): string {
+  return flags.prefix ?? extractPrefix(id) ?? "";
+}
+
+function checksumOf(flags: Flags): boolean | ChecksumScheme {
+  const { checksum } = flags;
+  if (checksum === undefined) return false;
+  return isChecksumScheme(checksum) ? checksum : true;
+}
+
+function isChecksumScheme(value: string): value is ChecksumScheme {
+  return value === "legacy" || value === "mod3833";
+}
+
+function expandChecksum(argv: string[]): string[] {
+  const args: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const next = argv[i + 1];
+
+    if (argv[i] !== "--checksum") {
+      args.push(argv[i]!);
+    } else if (next !== undefined && isChecksumScheme(next)) {
+      args.push(`--checksum=${next}`);
+      i++;
+    } else {
+      args.push("--checksum=true");
+    }
+  }
+
+  return args;
+}
+
+function parseMetadata(value: string): Record<string, unknown> | null {
+  let metadata: unknown;
+
+  try {
+    metadata = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  return typeof metadata === "object" &&
+    metadata !== null &&
+    !Array.isArray(metadata)
+    ? (metadata as Record<string, unknown>)
+    : null;
+}
+
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+if (
+  process.argv[1] &&
+  realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)
+) {
+  process.exitCode = await run(process.argv.slice(2), {
+    async readStdin() {
+      if (process.stdin.isTTY) return "";
+
+      let text = "";
+      for await (const chunk of process.stdin) text += chunk;
+      return text;
+    },
+    write: (text) => process.stdout.write(`${text}\n`),
+    error: (text) => process.stderr.write(`${text}\n`),
+  });
+}
@@ -0,0 +1,99 @@
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { customType as pgCustomType } from "drizzle-orm/pg-core";
+import { customType as sqliteCustomType } from "drizzle-orm/sqlite-core";
+import {
+  bufferRangeFor,
+  fromBuffer,
+  idRangeFor,
+  parseZeroId,
+  toBuffer,
+  zeroId,
+  type ChecksumScheme,
+  type ZeroIdOf,
+} from "./index";
+
+export type ZeroIdStorage = "text" | "binary";
+
+export interface ZeroIdColumnOptions<P extends string = ""> {
+  prefix?: P;
+  storage?: ZeroIdStorage;
+  checksum?: boolean | ChecksumScheme;
+}
+
+export interface ZeroIdRangeOptions {
+  prefix?: string;
+  storage?: ZeroIdStorage;
+}
+
+type ZeroIdColumnType<P extends string> = {
+  data: ZeroIdOf<P>;
+  driverData: string | Uint8Array;
+};
+
+export function sqliteZeroId<P extends string = "">(
+  name: string,
+  options: ZeroIdColumnOptions<P> = {},
+) {
+  return sqliteCustomType<ZeroIdColumnType<P>>(columnParams(options, "blob"))(
+    name,
+  ).$defaultFn(() => generate(options));
+}
+
+export function pgZeroId<P extends string = "">(
+  name: string,
+  options: ZeroIdColumnOptions<P> = {},
+) {
+  return pgCustomType<ZeroIdColumnType<P>>(columnParams(options, "bytea"))(
+    name,
+  ).$defaultFn(() => generate(options));
+}
+
+export function createdBetween(
+  column: AnyColumn,
+  from: number | Date,
+  to: number | Date,
+  options: ZeroIdRangeOptions = {},
+): SQL {
+  const { min, max } =
+    options.storage === "binary"
+      ? bufferRangeFor(from, to)
+      : idRangeFor(from, to, options.prefix);
+
+  return sql`${column} between ${min} and ${max}`;
+}
+
+function columnParams<P extends string>(
+  options: ZeroIdColumnOptions<P>,
+  binaryType: string,
+) {
+  const { prefix = "", storage = "text", checksum = false } = options;
+
+  if (storage === "binary" && checksum) {
+    throw new RangeError("Binary zeroId columns cannot store checksums");
+  }
+
+  return {
+    dataType: () => (storage === "binary" ? binaryType : "text"),
+    toDriver(value: ZeroIdOf<P>): string | Uint8Array {
+      if (storage === "binary") return toBuffer(value, prefix);
+
+      const result = parseZeroId(value, prefix, { checksum });
+      if (!result.ok) throw result.error;
+      return value;
+    },
+    fromDriver(value: string | Uint8Array): ZeroIdOf<P> {
+      return (
+        typeof value === "string" ? value : fromBuffer(value, prefix)
+      ) as ZeroIdOf<P>;
+    },
+  };
+}
+
+function generate<P extends string>(
+  options: ZeroIdColumnOptions<P>,
+): ZeroIdOf<P> {
+  return zeroId({
+    prefix: options.prefix,
+    checksum: options.checksum,
+  }) as ZeroIdOf<P>;
+}
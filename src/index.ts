@@ -1,28 +1,374 @@
 const BASE62_CHARS =
   "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
 
-let lastTimestamp = 0;
-let counter = 0;
-
 export const constants = {
   TIMESTAMP_LENGTH: 9,
   DEFAULT_RANDOM_LENGTH: 7,
+  DEFAULT_NODE_ID_LENGTH: 2,
+  FORMAT_VERSION: 1,
   BASE62_CHARS,
   MIN_TIMESTAMP: 946684800000,
   MAX_TIMESTAMP: 32503680000000,
 } as const;
 
+const VERSION_MARKER = BASE62_CHARS[constants.FORMAT_VERSION]!;
+const ENCRYPTED_MARKER = "2";
+const ENCRYPTED_TIMESTAMP_MARKER = "3";
+const ENCRYPTION_IV_LENGTH = 12;
+const ENCRYPTION_TAG_LENGTH = 16;
+const STANDARD_ID_LENGTH =
+  constants.TIMESTAMP_LENGTH + constants.DEFAULT_RANDOM_LENGTH;
+const BUFFER_LENGTH = 16;
+const ENTROPY_POOL_SIZE = 4096;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ULID_ENTROPY_BITS = 80n;
+const KSUID_EPOCH = 1400000000;
+const KSUID_PAYLOAD_BITS = 128n;
+const SNOWFLAKE_EPOCH = 1288834974657;
+const SNOWFLAKE_ENTROPY_BITS = 22n;
+const BOUND_SENTINEL = "~";
+const SIGNATURE_TAG_BYTES = 12;
+const SIGNATURE_TAG_LENGTH = 17;
+const FLAG_METADATA = 1;
+const FLAG_CHECKSUM = 2;
+const FLAG_MOD3833_CHECKSUM = 32;
+const NODE_ID_LENGTH_SHIFT = 2;
+const MAX_VERSIONED_NODE_ID_LENGTH = 7;
+
+const CROCKFORD_CHARS = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+const PACKED_CHUNK_CHARS = [0, 2, 3, 5, 6, 7, 9, 10, 11];
+const TAG_NULL = 0;
+const TAG_FALSE = 1;
+const TAG_TRUE = 2;
+const TAG_INTEGER = 3;
+const TAG_NEGATIVE_INTEGER = 4;
+const TAG_DECIMAL = 5;
+const TAG_FLOAT = 6;
+const TAG_STRING = 7;
+const TAG_ARRAY = 8;
+const TAG_OBJECT = 9;
+
+export class CounterExhaustedError extends Error {
+  readonly timestamp: number;
+
+  constructor(timestamp: number) {
+    super(`Counter exhausted for timestamp ${timestamp}`);
+    this.name = "CounterExhaustedError";
+    this.timestamp = timestamp;
+  }
+}
+
+export type CounterExhaustedPolicy = "borrow" | "wait" | "throw";
+
+export class ClockRegressionError extends Error {
+  readonly previous: number;
+  readonly current: number;
+
+  constructor(previous: number, current: number) {
+    super(`Clock moved backwards from ${previous} to ${current}`);
+    this.name = "ClockRegressionError";
+    this.previous = previous;
+    this.current = current;
+  }
+}
+
+export type ClockRegressionPolicy = "keep" | "wait" | "throw";
+
+export interface ClockRegressionEvent {
+  previous: number;
+  current: number;
+}
+
+export type ZeroIdParseErrorCode =
+  | "PREFIX_MISMATCH"
+  | "BAD_CHARSET"
+  | "TOO_SHORT"
+  | "CHECKSUM_MISMATCH"
+  | "TIMESTAMP_OUT_OF_RANGE"
+  | "METADATA_CORRUPT"
+  | "METADATA_INVALID"
+  | "INVALID_FLAGS"
+  | "ENCRYPTED";
+
+export class ZeroIdParseError extends Error {
+  readonly code: ZeroIdParseErrorCode;
+  readonly position: number;
+
+  constructor(code: ZeroIdParseErrorCode, position: number, message: string) {
+    super(message);
+    this.name = "ZeroIdParseError";
+    this.code = code;
+    this.position = position;
+  }
+}
+
+export class MetadataValidationError extends Error {
+  readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = "MetadataValidationError";
+    this.field = field;
+  }
+}
+
+export type ForeignIdFormat = "ulid" | "ksuid" | "snowflake";
+
+export class LossyConversionError extends Error {
+  readonly format: ForeignIdFormat;
+
+  constructor(format: ForeignIdFormat, message: string) {
+    super(message);
+    this.name = "LossyConversionError";
+    this.format = format;
+  }
+}
+
+export type MetadataFieldType = "string" | "number" | "integer" | "boolean";
+
+export type MetadataEncoding = "json" | "binary";
+
+export type ChecksumScheme = "legacy" | "mod3833";
+
+export type AlphabetName = "base62" | "crockford";
+
+export interface Alphabet {
+  readonly name: string;
+  readonly chars: string;
+  readonly radix: bigint;
+  readonly timestampLength: number;
+  readonly checksumPrime: number;
+  normalize(str: string): string;
+}
+
+export interface ForeignIdOptions {
+  prefix?: string;
+  randomLength?: number;
+}
+
+export interface SnowflakeOptions {
+  epoch?: number;
+}
+
+export interface MetadataField {
+  type: MetadataFieldType;
+  optional?: boolean;
+}
+
+export type InferMetadata<F extends Record<string, MetadataField>> = {
+  -readonly [
+    K in keyof F as F[K]["optional"] extends true ? never : K
+  ]: MetadataValue<F[K]["type"]>;
+} & {
+  -readonly [
+    K in keyof F as F[K]["optional"] extends true ? K : never
+  ]?: MetadataValue<F[K]["type"]>;
+};
+
+type SchemaMetadata<F extends Record<string, MetadataField>> = {
+  [K in keyof InferMetadata<F>]: InferMetadata<F>[K];
+};
+
+type MetadataValue<K extends MetadataFieldType> = K extends "string"
+  ? string
+  : K extends "boolean"
+    ? boolean
+    : number;
+
+export interface MetadataSchema<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly fields: Readonly<Record<string, MetadataField>>;
+  readonly maxLength?: number;
+  validate(
+    value: unknown,
+  ): { ok: true; value: T } | { ok: false; error: MetadataValidationError };
+}
+
 export interface DecodedZeroId<T = Record<string, unknown>> {
   timestamp: number;
   createdAt: Date;
+  counter: number;
+  random: string;
+  prefix: string;
+  checksum: ChecksumScheme | null;
+  version?: number;
+  nodeId?: number;
   metadata?: T;
 }
 
+export type ZeroIdParseResult<T = Record<string, unknown>> =
+  | { ok: true; value: DecodedZeroId<T> }
+  | { ok: false; error: ZeroIdParseError };
+
 export interface ZeroIdOptions<T = Record<string, unknown>> {
   prefix?: string;
   randomLength?: number;
   metadata?: T;
-  checksum?: boolean;
+  metadataEncoding?: MetadataEncoding;
+  checksum?: boolean | ChecksumScheme;
+  versioned?: boolean;
+  alphabet?: AlphabetName | Alphabet;
+}
+
+export type ZeroIdKey = Parameters<typeof crypto.subtle.encrypt>[1];
+
+export interface ZeroIdEncryptionOptions {
+  key: ZeroIdKey;
+  encryptTimestamp?: boolean;
+}
+
+export interface ZeroIdSigningKey {
+  id: string;
+  key: ZeroIdKey;
+}
+
+export interface ZeroIdSigningOptions {
+  key: ZeroIdSigningKey;
+  verificationKeys?: ZeroIdSigningKey[];
+}
+
+export interface ZeroIdDecodeOptions {
+  checksum?: boolean | ChecksumScheme;
+  nodeIdLength?: number;
+  metadataSchema?: MetadataSchema;
+  alphabet?: AlphabetName | Alphabet;
+}
+
+export interface ZeroIdGeneratorConfig<
+  M extends Record<string, unknown> = Record<string, unknown>,
+> {
+  prefix?: string;
+  randomLength?: number;
+  checksum?: boolean | ChecksumScheme;
+  versioned?: boolean;
+  clock?: () => number;
+  random?: (bytes: Uint8Array) => Uint8Array;
+  seed?: number | string;
+  allowInProduction?: boolean;
+  nodeId?: number;
+  nodeIdLength?: number;
+  monotonic?: boolean;
+  onCounterExhausted?: CounterExhaustedPolicy;
+  onClockRegression?: ClockRegressionPolicy;
+  reportClockRegression?: (event: ClockRegressionEvent) => void;
+  metadataSchema?: MetadataSchema<M>;
+  metadataEncoding?: MetadataEncoding;
+  encryption?: ZeroIdEncryptionOptions;
+  signing?: ZeroIdSigningOptions;
+  alphabet?: AlphabetName | Alphabet;
+}
+
+export interface ZeroIdGenerator<
+  M extends Record<string, unknown> = Record<string, unknown>,
+> {
+  next<T extends M>(options?: ZeroIdOptions<T>): string;
+  at<T extends M>(timestamp: number | Date, options?: ZeroIdOptions<T>): string;
+  batch<T extends M>(count: number, options?: ZeroIdOptions<T>): string[];
+  stream<T extends M>(
+    count?: number,
+    options?: ZeroIdOptions<T>,
+  ): IterableIterator<string>;
+  decode<T = M>(id: string): DecodedZeroId<T> | null;
+  parse<T = M>(id: string): ZeroIdParseResult<T>;
+  nextEncrypted<T extends M>(
+    options?: ZeroIdOptions<T> & Partial<ZeroIdEncryptionOptions>,
+  ): Promise<string>;
+  decrypt<T = M>(id: string): Promise<DecodedZeroId<T> | null>;
+  nextSigned<T extends M>(options?: ZeroIdOptions<T>): Promise<string>;
+  verify(id: string): Promise<string | null>;
+  reset(): void;
+}
+
+export type ZeroIdOf<P extends string> = `${P}${string}`;
+
+export interface ZeroIdType<P extends string> {
+  readonly prefix: P;
+  next<T extends Record<string, unknown>>(
+    options?: Omit<ZeroIdOptions<T>, "prefix">,
+  ): ZeroIdOf<P>;
+  at<T extends Record<string, unknown>>(
+    timestamp: number | Date,
+    options?: Omit<ZeroIdOptions<T>, "prefix">,
+  ): ZeroIdOf<P>;
+  batch<T extends Record<string, unknown>>(
+    count: number,
+    options?: Omit<ZeroIdOptions<T>, "prefix">,
+  ): ZeroIdOf<P>[];
+  is(id: string): id is ZeroIdOf<P>;
+  decode<T = Record<string, unknown>>(id: ZeroIdOf<P>): DecodedZeroId<T> | null;
+  parse<T = Record<string, unknown>>(id: string): ZeroIdParseResult<T>;
+  compare(a: ZeroIdOf<P>, b: ZeroIdOf<P>): number;
+}
+
+export type ZeroIdTypes<M extends Record<string, string>> = {
+  readonly [K in keyof M]: ZeroIdType<M[K]>;
+};
+
+export interface ZeroIdSchemaOptions<
+  P extends string = string,
+  T extends Record<string, unknown> = Record<string, unknown>,
+> extends Omit<ZeroIdDecodeOptions, "metadataSchema"> {
+  prefix?: P;
+  maxAge?: number;
+  metadataSchema?: MetadataSchema<T>;
+}
+
+export type ZeroIdSchemaOutput<
+  P extends string = string,
+  T = Record<string, unknown>,
+> = DecodedZeroId<T> & { id: ZeroIdOf<P> };
+
+export interface ZeroIdSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey>;
+}
+
+export type ZeroIdSchemaResult<O> =
+  | { readonly value: O; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ZeroIdSchemaIssue> };
+
+export interface ZeroIdSchema<
+  P extends string = string,
+  T = Record<string, unknown>,
+> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: "zero-id";
+    readonly validate: (
+      value: unknown,
+    ) => ZeroIdSchemaResult<ZeroIdSchemaOutput<P, T>>;
+    readonly types?: {
+      readonly input: string;
+      readonly output: ZeroIdSchemaOutput<P, T>;
+    };
+  };
+}
+
+export interface CompareZeroIdsOptions {
+  prefix?: string;
+  mixedPrefixes?: "group" | "ignore";
+  knownPrefixes?: string[] | ZeroIdTypes<Record<string, string>>;
+  alphabet?: AlphabetName | Alphabet;
+}
+
+export type IdBoundOptions = Pick<
+  ZeroIdOptions,
+  "prefix" | "versioned" | "alphabet"
+>;
+
+export type TimestampOptions = Pick<ZeroIdDecodeOptions, "alphabet">;
+
+export interface IdRange {
+  min: string;
+  max: string;
+}
+
+export interface BufferRange {
+  min: Uint8Array;
+  max: Uint8Array;
 }
 
 export interface TimestampRange {
@@ -33,40 +379,195 @@ export interface TimestampRange {
   span: number;
 }
 
-function encodeBase62(num: number | bigint, length: number): string {
+function createAlphabet(
+  name: string,
+  chars: string,
+  normalize: (str: string) => string = (str) => str,
+): Alphabet {
+  const radix = BigInt(chars.length);
+  let timestampLength = 1;
+  while (radix ** BigInt(timestampLength) < 62n ** 9n) timestampLength++;
+
+  let checksumPrime = chars.length ** 2 - 1;
+  while (!isPrime(checksumPrime)) checksumPrime--;
+
+  return { name, chars, radix, timestampLength, checksumPrime, normalize };
+}
+
+function isPrime(n: number): boolean {
+  if (n < 2) return false;
+  for (let i = 2; i * i <= n; i++) {
+    if (n % i === 0) return false;
+  }
+  return true;
+}
+
+const BASE62 = createAlphabet("base62", BASE62_CHARS);
+const CROCKFORD = createAlphabet("crockford", CROCKFORD_CHARS, (str) =>
+  str.replace(/-/g, "").toUpperCase().replace(/O/g, "0").replace(/[IL]/g, "1"),
+);
+
+export function defineAlphabet(chars: string): Alphabet {
+  if (chars.length < 2) {
+    throw new RangeError("An alphabet needs at least 2 characters");
+  }
+
+  for (let i = 0; i < chars.length; i++) {
+    const code = chars.charCodeAt(i);
+
+    if (code < 0x21 || code > 0x7e) {
+      throw new RangeError(
+        `Alphabet characters must be printable ASCII, got "${chars[i]}"`,
+      );
+    }
+    if (i > 0 && code <= chars.charCodeAt(i - 1)) {
+      throw new RangeError(
+        `Alphabet must be in ascending ASCII order, "${chars[i]}" follows "${chars[i - 1]}"`,
+      );
+    }
+  }
+
+  return createAlphabet("custom", chars);
+}
+
+function resolveAlphabet(
+  alphabet: AlphabetName | Alphabet = "base62",
+): Alphabet {
+  if (typeof alphabet !== "string") return alphabet;
+  return alphabet === "crockford" ? CROCKFORD : BASE62;
+}
+
+function isBase62(alphabet: Alphabet): boolean {
+  return alphabet.chars === BASE62_CHARS;
+}
+
+function requireBase62(alphabet: Alphabet, feature: string): void {
+  if (!isBase62(alphabet)) {
+    throw new Error(
+      `${feature} is not supported with the ${alphabet.name} alphabet`,
+    );
+  }
+}
+
+function encodeBase62(
+  num: number | bigint,
+  length: number,
+  alphabet: Alphabet = BASE62,
+): string {
+  if (typeof num === "number" && Number.isSafeInteger(num)) {
+    const radix = alphabet.chars.length;
+    let result = "";
+
+    for (let i = 0; i < length; i++) {
+      result = alphabet.chars[num % radix] + result;
+      num = Math.floor(num / radix);
+    }
+
+    return result;
+  }
+
   let n = typeof num === "bigint" ? num : BigInt(num);
   let result = "";
 
   for (let i = 0; i < length; i++) {
-    result = BASE62_CHARS[Number(n % 62n)] + result;
-    n = n / 62n;
+    result = alphabet.chars[Number(n % alphabet.radix)] + result;
+    n = n / alphabet.radix;
   }
 
   return result;
 }
 
-function decodeBase62(str: string): bigint {
+function decodeBase62(str: string, alphabet: Alphabet = BASE62): bigint {
   let num = 0n;
   for (let i = 0; i < str.length; i++) {
     const char = str[i]!;
-    const value = BASE62_CHARS.indexOf(char);
+    const value = alphabet.chars.indexOf(char);
     if (value === -1) return -1n;
-    num = num * 62n + BigInt(value);
+    num = num * alphabet.radix + BigInt(value);
   }
   return num;
 }
 
-function randomBase62(length: number): string {
+function defaultRandom(bytes: Uint8Array): Uint8Array {
+  return crypto.getRandomValues(bytes);
+}
+
+function seededRandom(
+  seed: number | string,
+): (bytes: Uint8Array) => Uint8Array {
+  let state = 0x811c9dc5;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 0x01000193);
+  }
+
+  return (bytes) => {
+    for (let i = 0; i < bytes.length; i++) {
+      state = (state + 0x6d2b79f5) | 0;
+      let value = Math.imul(state ^ (state >>> 15), state | 1);
+      value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+      bytes[i] = (value ^ (value >>> 14)) >>> 24;
+    }
+    return bytes;
+  };
+}
+
+function createEntropyPool(
+  random: (bytes: Uint8Array) => Uint8Array,
+): () => number {
+  const bytes = new Uint8Array(ENTROPY_POOL_SIZE);
+  let offset = ENTROPY_POOL_SIZE;
+
+  return () => {
+    if (offset === ENTROPY_POOL_SIZE) {
+      random(bytes);
+      offset = 0;
+    }
+    return bytes[offset++]!;
+  };
+}
+
+function pooledBase62(
+  length: number,
+  nextByte: () => number,
+  alphabet: Alphabet = BASE62,
+): string {
+  const radix = alphabet.chars.length;
+  const limit = 256 - (256 % radix);
+  let result = "";
+
+  while (result.length < length) {
+    const byte = nextByte();
+    if (byte < limit) result += alphabet.chars[byte % radix];
+  }
+
+  return result;
+}
+
+function timestampValue(timestamp: number, counter: number): number | bigint {
+  const value = timestamp * 1000 + counter;
+
+  return Number.isSafeInteger(timestamp) && Number.isSafeInteger(value)
+    ? value
+    : BigInt(timestamp) * 1000n + BigInt(counter);
+}
+
+function randomBase62(
+  length: number,
+  random: (bytes: Uint8Array) => Uint8Array = defaultRandom,
+  alphabet: Alphabet = BASE62,
+): string {
+  const radix = alphabet.chars.length;
+  const limit = 256 - (256 % radix);
   let result = "";
 
   while (result.length < length) {
     const needed = length - result.length;
     const bytes = new Uint8Array(needed + 4);
-    crypto.getRandomValues(bytes);
+    random(bytes);
 
     for (let i = 0; i < bytes.length && result.length < length; i++) {
-      if (bytes[i]! < 248) {
-        result += BASE62_CHARS[bytes[i]! % 62];
+      if (bytes[i]! < limit) {
+        result += alphabet.chars[bytes[i]! % radix];
       }
     }
   }
@@ -74,7 +575,12 @@ function randomBase62(length: number): string {
   return result;
 }
 
-function encodeMetadata(metadata: Record<string, unknown>): string {
+function encodeMetadata(
+  metadata: Record<string, unknown>,
+  encoding: MetadataEncoding = "json",
+): string {
+  if (encoding === "binary") return encodeBinaryMetadata(metadata);
+
   const json = JSON.stringify(metadata);
   const bytes = new TextEncoder().encode(json);
   let result = "";
@@ -93,7 +599,11 @@ function decodeMetadata<T>(
   if (encoded.length < 3) return null;
 
   const lengthPart = encoded.slice(0, 3);
-  const metadataLength = Number(decodeBase62(lengthPart));
+  const header = Number(decodeBase62(lengthPart));
+
+  if (header % 2 === 1) return decodeBinaryMetadata<T>(encoded, header);
+
+  const metadataLength = header;
 
   if (metadataLength < 0 || encoded.length < 3 + metadataLength) return null;
 
@@ -117,151 +627,1444 @@ function decodeMetadata<T>(
   }
 }
 
-function calculateChecksum(data: string): string {
+function encodeBinaryMetadata(metadata: Record<string, unknown>): string {
+  const bytes: number[] = [];
+  writeMetadataValue(bytes, JSON.parse(JSON.stringify(metadata)));
+
+  const data = packBase62(bytes);
+  const header = data.length * 2 + 1;
+
+  if (header >= 62 ** 3) {
+    throw new RangeError(`Metadata is too large (${data.length} characters)`);
+  }
+
+  return encodeBase62(header, 3) + data;
+}
+
+function decodeBinaryMetadata<T>(
+  encoded: string,
+  header: number,
+): { metadata: T; length: number } | null {
+  const dataLength = (header - 1) / 2;
+  if (encoded.length < 3 + dataLength) return null;
+
+  const bytes = unpackBase62(encoded.slice(3, 3 + dataLength));
+  if (!bytes) return null;
+
+  try {
+    const cursor = { offset: 0 };
+    const metadata = readMetadataValue(bytes, cursor);
+
+    if (
+      cursor.offset !== bytes.length ||
+      typeof metadata !== "object" ||
+      metadata === null ||
+      Array.isArray(metadata)
+    ) {
+      return null;
+    }
+
+    return { metadata: metadata as T, length: 3 + dataLength };
+  } catch {
+    return null;
+  }
+}
+
+function packBase62(bytes: number[]): string {
+  let result = "";
+
+  for (let i = 0; i < bytes.length; i += 8) {
+    const chunk = bytes.slice(i, i + 8);
+    let value = 0n;
+    for (const byte of chunk) value = (value << 8n) | BigInt(byte);
+    result += encodeBase62(value, PACKED_CHUNK_CHARS[chunk.length]!);
+  }
+
+  return result;
+}
+
+function unpackBase62(str: string): number[] | null {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < str.length; i += 11) {
+    const chunk = str.slice(i, i + 11);
+    const byteCount = PACKED_CHUNK_CHARS.indexOf(chunk.length);
+    const value = decodeBase62(chunk);
+
+    if (byteCount < 1 || value < 0n || value >> BigInt(byteCount * 8) > 0n) {
+      return null;
+    }
+
+    for (let shift = (byteCount - 1) * 8; shift >= 0; shift -= 8) {
+      bytes.push(Number((value >> BigInt(shift)) & 0xffn));
+    }
+  }
+
+  return bytes;
+}
+
+function writeMetadataValue(out: number[], value: unknown): void {
+  if (value === null) {
+    out.push(TAG_NULL);
+  } else if (typeof value === "boolean") {
+    out.push(value ? TAG_TRUE : TAG_FALSE);
+  } else if (typeof value === "number") {
+    writeMetadataNumber(out, value);
+  } else if (typeof value === "string") {
+    out.push(TAG_STRING);
+    writeMetadataString(out, value);
+  } else if (Array.isArray(value)) {
+    out.push(TAG_ARRAY);
+    writeVarint(out, value.length);
+    for (const item of value) writeMetadataValue(out, item);
+  } else {
+    const entries = Object.entries(value as Record<string, unknown>);
+    out.push(TAG_OBJECT);
+    writeVarint(out, entries.length);
+    for (const [key, item] of entries) {
+      writeMetadataString(out, key);
+      writeMetadataValue(out, item);
+    }
+  }
+}
+
+function writeMetadataNumber(out: number[], value: number): void {
+  const magnitude = Math.abs(value);
+
+  if (Number.isSafeInteger(value)) {
+    out.push(value < 0 ? TAG_NEGATIVE_INTEGER : TAG_INTEGER);
+    writeVarint(out, magnitude);
+    return;
+  }
+
+  for (let scale = 1; scale <= 15; scale++) {
+    const mantissa = Math.round(magnitude * 10 ** scale);
+    if (!Number.isSafeInteger(mantissa)) break;
+
+    if (mantissa / 10 ** scale === magnitude) {
+      out.push(TAG_DECIMAL, value < 0 ? scale | 0x80 : scale);
+      writeVarint(out, mantissa);
+      return;
+    }
+  }
+
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  out.push(TAG_FLOAT, ...new Uint8Array(view.buffer));
+}
+
+function writeMetadataString(out: number[], value: string): void {
+  const bytes = new TextEncoder().encode(value);
+  writeVarint(out, bytes.length);
+  out.push(...bytes);
+}
+
+function writeVarint(out: number[], value: number): void {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+}
+
+function readMetadataValue(
+  bytes: number[],
+  cursor: { offset: number },
+): unknown {
+  const tag = readByte(bytes, cursor);
+
+  switch (tag) {
+    case TAG_NULL:
+      return null;
+    case TAG_FALSE:
+      return false;
+    case TAG_TRUE:
+      return true;
+    case TAG_INTEGER:
+      return readVarint(bytes, cursor);
+    case TAG_NEGATIVE_INTEGER:
+      return -readVarint(bytes, cursor);
+    case TAG_DECIMAL: {
+      const scale = readByte(bytes, cursor);
+      const magnitude = readVarint(bytes, cursor) / 10 ** (scale & 0x7f);
+      return scale & 0x80 ? -magnitude : magnitude;
+    }
+    case TAG_FLOAT: {
+      const view = new DataView(
+        new Uint8Array(readBytes(bytes, cursor, 8)).buffer,
+      );
+      return view.getFloat64(0);
+    }
+    case TAG_STRING:
+      return readMetadataString(bytes, cursor);
+    case TAG_ARRAY: {
+      const length = readVarint(bytes, cursor);
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(readMetadataValue(bytes, cursor));
+      }
+      return items;
+    }
+    case TAG_OBJECT: {
+      const length = readVarint(bytes, cursor);
+      const record: Record<string, unknown> = {};
+      for (let i = 0; i < length; i++) {
+        const key = readMetadataString(bytes, cursor);
+        record[key] = readMetadataValue(bytes, cursor);
+      }
+      return record;
+    }
+    default:
+      throw new Error(`Unknown metadata tag ${tag}`);
+  }
+}
+
+function readMetadataString(
+  bytes: number[],
+  cursor: { offset: number },
+): string {
+  const length = readVarint(bytes, cursor);
+  return new TextDecoder("utf-8", { fatal: true }).decode(
+    new Uint8Array(readBytes(bytes, cursor, length)),
+  );
+}
+
+function readVarint(bytes: number[], cursor: { offset: number }): number {
+  let value = 0;
+  let multiplier = 1;
+
+  for (;;) {
+    const byte = readByte(bytes, cursor);
+    value += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) return value;
+    multiplier *= 0x80;
+    if (multiplier > Number.MAX_SAFE_INTEGER) {
+      throw new Error("Varint too large");
+    }
+  }
+}
+
+function readByte(bytes: number[], cursor: { offset: number }): number {
+  if (cursor.offset >= bytes.length) throw new Error("Unexpected end of data");
+  return bytes[cursor.offset++]!;
+}
+
+function readBytes(
+  bytes: number[],
+  cursor: { offset: number },
+  length: number,
+): number[] {
+  if (cursor.offset + length > bytes.length) {
+    throw new Error("Unexpected end of data");
+  }
+  const result = bytes.slice(cursor.offset, cursor.offset + length);
+  cursor.offset += length;
+  return result;
+}
+
+export function defineMetadataSchema<
+  const F extends Record<string, MetadataField>,
+>(
+  fields: F,
+  options: { maxLength?: number } = {},
+): MetadataSchema<SchemaMetadata<F>> {
+  return {
+    fields,
+    maxLength: options.maxLength,
+    validate(value) {
+      if (isSchemaMetadata(fields, value)) return { ok: true, value };
+
+      return {
+        ok: false,
+        error:
+          metadataError(fields, value) ??
+          new MetadataValidationError("Invalid metadata"),
+      };
+    },
+  };
+}
+
+function isSchemaMetadata<F extends Record<string, MetadataField>>(
+  fields: F,
+  value: unknown,
+): value is SchemaMetadata<F> {
+  return metadataError(fields, value) === null;
+}
+
+function metadataError(
+  fields: Record<string, MetadataField>,
+  value: unknown,
+): MetadataValidationError | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return new MetadataValidationError("Metadata must be an object");
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!Object.hasOwn(fields, key)) {
+      return new MetadataValidationError(
+        `Unknown metadata field "${key}"`,
+        key,
+      );
+    }
+  }
+
+  for (const [key, field] of Object.entries(fields)) {
+    const fieldValue: unknown = Reflect.get(value, key);
+
+    if (fieldValue === undefined) {
+      if (field.optional) continue;
+      return new MetadataValidationError(
+        `Missing required metadata field "${key}"`,
+        key,
+      );
+    }
+
+    if (!matchesFieldType(fieldValue, field.type)) {
+      return new MetadataValidationError(
+        `Metadata field "${key}" must be a ${field.type}`,
+        key,
+      );
+    }
+  }
+
+  return null;
+}
+
+function matchesFieldType(value: unknown, type: MetadataFieldType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isSafeInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+function checkMetadata(
+  schema: MetadataSchema,
+  metadata: unknown,
+  encodedLength: number,
+): MetadataValidationError | null {
+  const result = schema.validate(metadata ?? {});
+  if (!result.ok) return result.error;
+
+  if (schema.maxLength !== undefined && encodedLength > schema.maxLength) {
+    return new MetadataValidationError(
+      `Metadata is ${encodedLength} characters, more than the maximum of ${schema.maxLength}`,
+    );
+  }
+
+  return null;
+}
+
+function resolveChecksum(
+  checksum: boolean | ChecksumScheme | undefined,
+): ChecksumScheme | null {
+  if (checksum === true) return "legacy";
+  return checksum || null;
+}
+
+function calculateChecksum(
+  data: string,
+  scheme: ChecksumScheme = "legacy",
+  alphabet: Alphabet = BASE62,
+): string {
+  if (scheme === "mod3833") return calculateMod3833Checksum(data, alphabet);
+
+  const modulus = alphabet.chars.length ** 2;
   let sum = 0;
   for (let i = 0; i < data.length; i++) {
-    sum = (sum + BASE62_CHARS.indexOf(data[i]!) * (i + 1)) % 3844;
+    sum = (sum + alphabet.chars.indexOf(data[i]!) * (i + 1)) % modulus;
+  }
+  return encodeBase62(sum, 2, alphabet);
+}
+
+function calculateMod3833Checksum(data: string, alphabet: Alphabet): string {
+  const radix = alphabet.chars.length;
+  const prime = alphabet.checksumPrime;
+  let remainder = 0;
+  for (let i = 0; i < data.length; i++) {
+    remainder = (remainder * radix + alphabet.chars.indexOf(data[i]!)) % prime;
+  }
+  remainder = (remainder * radix ** 2) % prime;
+  return encodeBase62((prime - remainder) % prime, 2, alphabet);
+}
+
+function verifyChecksum(
+  id: string,
+  scheme: ChecksumScheme = "legacy",
+  alphabet: Alphabet = BASE62,
+): boolean {
+  if (id.length < 2) return false;
+  const data = id.slice(0, -2);
+  const checksum = id.slice(-2);
+  return calculateChecksum(data, scheme, alphabet) === checksum;
+}
+
+function readFlags(flagsChar: string | undefined): {
+  metadata: boolean;
+  checksum: ChecksumScheme | null;
+  nodeIdLength: number;
+} | null {
+  const flags = BASE62_CHARS.indexOf(flagsChar ?? "");
+  if (flags === -1) return null;
+
+  const legacy = (flags & FLAG_CHECKSUM) !== 0;
+  const mod3833 = (flags & FLAG_MOD3833_CHECKSUM) !== 0;
+  if (legacy && mod3833) return null;
+
+  return {
+    metadata: (flags & FLAG_METADATA) !== 0,
+    checksum: mod3833 ? "mod3833" : legacy ? "legacy" : null,
+    nodeIdLength:
+      (flags >> NODE_ID_LENGTH_SHIFT) & MAX_VERSIONED_NODE_ID_LENGTH,
+  };
+}
+
+function checksumMatches(
+  expected: boolean | ChecksumScheme | undefined,
+  actual: ChecksumScheme | null,
+): boolean {
+  if (!expected) return true;
+  return actual !== null && (expected === true || expected === actual);
+}
+
+function timestampOffset(unprefixed: string): number {
+  switch (unprefixed[0]) {
+    case VERSION_MARKER:
+    case ENCRYPTED_MARKER:
+      return 1;
+    case ENCRYPTED_TIMESTAMP_MARKER:
+      return -1;
+    default:
+      return 0;
+  }
+}
+
+function parseTimestamp(
+  timestampPart: string,
+  alphabet: Alphabet = BASE62,
+): number | null {
+  const decoded = decodeBase62(timestampPart, alphabet);
+
+  if (decoded < 0n) return null;
+
+  const timestamp = Number(decoded / 1000n);
+
+  if (
+    timestamp < constants.MIN_TIMESTAMP ||
+    timestamp > constants.MAX_TIMESTAMP
+  ) {
+    return null;
+  }
+
+  return timestamp;
+}
+
+function parseCounter(
+  timestampPart: string,
+  alphabet: Alphabet = BASE62,
+): number {
+  return Number(decodeBase62(timestampPart, alphabet) % 1000n);
+}
+
+function parseVersioned<T>(
+  unprefixed: string,
+  prefix: string,
+  options: ZeroIdDecodeOptions,
+): ZeroIdParseResult<T> {
+  const start = prefix.length;
+
+  if (unprefixed.length < 12) {
+    return parseFailure(
+      "TOO_SHORT",
+      start + unprefixed.length,
+      "Invalid zeroId: too short",
+    );
+  }
+
+  const flags = readFlags(unprefixed[10]);
+
+  if (!flags) {
+    return parseFailure(
+      "INVALID_FLAGS",
+      start + 10,
+      "Invalid zeroId: unsupported layout flags",
+    );
+  }
+
+  const { checksum, nodeIdLength } = flags;
+
+  if (!checksumMatches(options.checksum, checksum)) {
+    return parseFailure(
+      "CHECKSUM_MISMATCH",
+      start + unprefixed.length,
+      "Invalid zeroId: checksum missing",
+    );
+  }
+
+  let body = unprefixed;
+
+  if (checksum) {
+    if (!verifyChecksum(body, checksum)) {
+      return parseFailure(
+        "CHECKSUM_MISMATCH",
+        start + body.length - 2,
+        "Invalid zeroId: checksum mismatch",
+      );
+    }
+    body = body.slice(0, -2);
+  }
+
+  if (body.length < 11 + nodeIdLength) {
+    return parseFailure(
+      "TOO_SHORT",
+      start + body.length,
+      "Invalid zeroId: too short",
+    );
+  }
+
+  const timestamp = parseTimestamp(body.slice(1, 10));
+
+  if (timestamp === null) {
+    return parseFailure(
+      "TIMESTAMP_OUT_OF_RANGE",
+      start + 1,
+      "Invalid zeroId: timestamp out of range",
+    );
+  }
+
+  let offset = 11 + nodeIdLength;
+  let metadata: T | undefined;
+
+  if (flags.metadata) {
+    const metadataResult = decodeMetadata<T>(body.slice(offset));
+
+    if (!metadataResult) {
+      return parseFailure(
+        "METADATA_CORRUPT",
+        start + offset,
+        "Invalid zeroId: metadata corrupt",
+      );
+    }
+
+    metadata = metadataResult.metadata;
+    offset += metadataResult.length;
+  }
+
+  if (options.metadataSchema) {
+    const metadataOffset = 11 + nodeIdLength;
+    const error = checkMetadata(
+      options.metadataSchema,
+      metadata,
+      offset - metadataOffset,
+    );
+
+    if (error) {
+      return parseFailure(
+        "METADATA_INVALID",
+        start + metadataOffset,
+        `Invalid zeroId: ${error.message}`,
+      );
+    }
+  }
+
+  if (body.length <= offset) {
+    return parseFailure(
+      "TOO_SHORT",
+      start + body.length,
+      "Invalid zeroId: random part missing",
+    );
+  }
+
+  return {
+    ok: true,
+    value: {
+      timestamp,
+      createdAt: new Date(timestamp),
+      counter: parseCounter(body.slice(1, 10)),
+      random: body.slice(offset),
+      prefix,
+      checksum,
+      version: constants.FORMAT_VERSION,
+      ...(nodeIdLength > 0 && {
+        nodeId: Number(decodeBase62(body.slice(11, 11 + nodeIdLength))),
+      }),
+      metadata,
+    },
+  };
+}
+
+function parseUnversioned<T>(
+  unprefixed: string,
+  prefix: string,
+  options: ZeroIdDecodeOptions,
+): ZeroIdParseResult<T> {
+  const start = prefix.length;
+  const { nodeIdLength = 0 } = options;
+  const alphabet = resolveAlphabet(options.alphabet);
+  const timestampLength = alphabet.timestampLength;
+
+  if (
+    unprefixed.length <
+    timestampLength + 1 + nodeIdLength + (options.checksum ? 2 : 0)
+  ) {
+    return parseFailure(
+      "TOO_SHORT",
+      start + unprefixed.length,
+      "Invalid zeroId: too short",
+    );
+  }
+
+  let body = unprefixed;
+  let checksum: ChecksumScheme | null = null;
+
+  if (options.checksum) {
+    const schemes: ChecksumScheme[] =
+      options.checksum === true ? ["legacy", "mod3833"] : [options.checksum];
+    checksum =
+      schemes.find((scheme) => verifyChecksum(body, scheme, alphabet)) ?? null;
+
+    if (!checksum) {
+      return parseFailure(
+        "CHECKSUM_MISMATCH",
+        start + body.length - 2,
+        "Invalid zeroId: checksum mismatch",
+      );
+    }
+    body = body.slice(0, -2);
+  }
+
+  const timestamp = parseTimestamp(body.slice(0, timestampLength), alphabet);
+
+  if (timestamp === null) {
+    return parseFailure(
+      "TIMESTAMP_OUT_OF_RANGE",
+      start,
+      "Invalid zeroId: timestamp out of range",
+    );
+  }
+
+  const nodeIdPart = body.slice(
+    timestampLength,
+    timestampLength + nodeIdLength,
+  );
+  const remaining = body.slice(timestampLength + nodeIdLength);
+  const metadataResult = isBase62(alphabet)
+    ? decodeMetadata<T>(remaining)
+    : null;
+
+  if (options.metadataSchema) {
+    const error = checkMetadata(
+      options.metadataSchema,
+      metadataResult?.metadata,
+      metadataResult?.length ?? 0,
+    );
+
+    if (error) {
+      return parseFailure(
+        "METADATA_INVALID",
+        start + timestampLength + nodeIdLength,
+        `Invalid zeroId: ${error.message}`,
+      );
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      timestamp,
+      createdAt: new Date(timestamp),
+      counter: parseCounter(body.slice(0, timestampLength), alphabet),
+      random: remaining.slice(metadataResult?.length ?? 0),
+      prefix,
+      checksum,
+      ...(nodeIdLength > 0 && {
+        nodeId: Number(decodeBase62(nodeIdPart, alphabet)),
+      }),
+      metadata: metadataResult?.metadata,
+    },
+  };
+}
+
+function parseFailure(
+  code: ZeroIdParseErrorCode,
+  position: number,
+  message: string,
+): { ok: false; error: ZeroIdParseError } {
+  return { ok: false, error: new ZeroIdParseError(code, position, message) };
+}
+
+interface IdParts {
+  prefix: string;
+  timestampPart: string;
+  nodeIdPart: string;
+  metadataPart: string;
+  randomPart: string;
+  checksum: ChecksumScheme | null;
+  versioned: boolean;
+  alphabet: Alphabet;
+}
+
+function versionFlags(parts: IdParts): string {
+  if (parts.nodeIdPart.length > MAX_VERSIONED_NODE_ID_LENGTH) {
+    throw new RangeError(
+      `nodeIdLength must be at most ${MAX_VERSIONED_NODE_ID_LENGTH} for versioned IDs`,
+    );
+  }
+
+  const flags =
+    (parts.metadataPart ? FLAG_METADATA : 0) |
+    (parts.checksum === "legacy" ? FLAG_CHECKSUM : 0) |
+    (parts.checksum === "mod3833" ? FLAG_MOD3833_CHECKSUM : 0) |
+    (parts.nodeIdPart.length << NODE_ID_LENGTH_SHIFT);
+
+  return BASE62_CHARS[flags]!;
+}
+
+function assemble(parts: IdParts): string {
+  const { timestampPart, nodeIdPart, metadataPart, randomPart } = parts;
+
+  const core = parts.versioned
+    ? VERSION_MARKER +
+      timestampPart +
+      versionFlags(parts) +
+      nodeIdPart +
+      metadataPart +
+      randomPart
+    : timestampPart + nodeIdPart + metadataPart + randomPart;
+  const checksumPart = parts.checksum
+    ? calculateChecksum(core, parts.checksum, parts.alphabet)
+    : "";
+
+  return parts.prefix + core + checksumPart;
+}
+
+async function assembleEncrypted(
+  parts: IdParts,
+  encryption: ZeroIdEncryptionOptions,
+): Promise<string> {
+  const { prefix, timestampPart, nodeIdPart, metadataPart, randomPart } = parts;
+  const { key, encryptTimestamp = false } = encryption;
+  requireBase62(parts.alphabet, "Encryption");
+
+  if (!metadataPart && !encryptTimestamp) {
+    return assemble({ ...parts, versioned: true });
+  }
+
+  const visible = encryptTimestamp
+    ? ENCRYPTED_TIMESTAMP_MARKER + versionFlags(parts) + nodeIdPart
+    : ENCRYPTED_MARKER + timestampPart + versionFlags(parts) + nodeIdPart;
+  const plaintext = (encryptTimestamp ? timestampPart : "") + metadataPart;
+
+  const iv = crypto.getRandomValues(new Uint8Array(ENCRYPTION_IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: new TextEncoder().encode(prefix + visible + randomPart),
+    },
+    key,
+    new TextEncoder().encode(plaintext),
+  );
+
+  const sealed = packBase62([...iv, ...new Uint8Array(ciphertext)]);
+  const core = visible + encodeBase62(sealed.length, 3) + sealed + randomPart;
+  const checksumPart = parts.checksum
+    ? calculateChecksum(core, parts.checksum)
+    : "";
+
+  return prefix + core + checksumPart;
+}
+
+export function createZeroIdGenerator<
+  M extends Record<string, unknown> = Record<string, unknown>,
+>(config: ZeroIdGeneratorConfig<M> = {}): ZeroIdGenerator<M> {
+  const {
+    prefix: defaultPrefix = "",
+    randomLength: defaultRandomLength = constants.DEFAULT_RANDOM_LENGTH,
+    checksum: defaultChecksum = false,
+    versioned: defaultVersioned = false,
+    clock = () => Date.now(),
+    seed,
+    allowInProduction = false,
+    nodeId,
+    nodeIdLength = constants.DEFAULT_NODE_ID_LENGTH,
+    monotonic = false,
+    onCounterExhausted = "borrow",
+    onClockRegression = "keep",
+    reportClockRegression,
+    metadataSchema,
+    metadataEncoding: defaultMetadataEncoding = "json",
+    encryption,
+    signing,
+    alphabet: defaultAlphabet = "base62",
+  } = config;
+
+  const decodeOptions: ZeroIdDecodeOptions = {
+    checksum: defaultChecksum,
+    nodeIdLength: nodeId === undefined ? 0 : nodeIdLength,
+    metadataSchema,
+    alphabet: defaultAlphabet,
+  };
+
+  function encodeNodeId(alphabet: Alphabet): string {
+    if (nodeId === undefined) return "";
+
+    const limit = alphabet.chars.length ** nodeIdLength;
+
+    if (!Number.isInteger(nodeId) || nodeId < 0 || nodeId >= limit) {
+      throw new RangeError(
+        `nodeId must be an integer between 0 and ${limit - 1}`,
+      );
+    }
+
+    return encodeBase62(nodeId, nodeIdLength, alphabet);
+  }
+
+  encodeNodeId(resolveAlphabet(defaultAlphabet));
+
+  if (seed !== undefined) {
+    if (config.random) {
+      throw new Error(
+        "A zeroId generator takes either a seed or a random source",
+      );
+    }
+    if (
+      globalThis.process?.env?.NODE_ENV === "production" &&
+      !allowInProduction
+    ) {
+      throw new Error(
+        "Seeded zeroId generators are not cryptographically secure; set allowInProduction to use one when NODE_ENV is production",
+      );
+    }
+  }
+
+  const createRandom = () =>
+    seed === undefined ? (config.random ?? defaultRandom) : seededRandom(seed);
+
+  let random = createRandom();
+  let lastClock = 0;
+  let lastTimestamp = 0;
+  let counter = 0;
+
+  function layout<T extends Record<string, unknown>>(
+    timestampWithCounter: number | bigint,
+    options: ZeroIdOptions<T>,
+    randomChars: (length: number, alphabet: Alphabet) => string = (
+      length,
+      alphabet,
+    ) => randomBase62(length, random, alphabet),
+  ): IdParts {
+    const {
+      prefix = defaultPrefix,
+      randomLength = defaultRandomLength,
+      metadata,
+      metadataEncoding = defaultMetadataEncoding,
+      checksum = defaultChecksum,
+      versioned = defaultVersioned,
+    } = options;
+    const alphabet = resolveAlphabet(options.alphabet ?? defaultAlphabet);
+
+    if (metadata) requireBase62(alphabet, "Metadata");
+    if (versioned) requireBase62(alphabet, "The versioned layout");
+
+    const metadataPart = metadata
+      ? encodeMetadata(metadata, metadataEncoding)
+      : "";
+
+    if (metadataSchema) {
+      const error = checkMetadata(
+        metadataSchema,
+        metadata,
+        metadataPart.length,
+      );
+      if (error) throw error;
+    }
+
+    return {
+      prefix,
+      timestampPart: encodeBase62(
+        timestampWithCounter,
+        alphabet.timestampLength,
+        alphabet,
+      ),
+      nodeIdPart: encodeNodeId(alphabet),
+      metadataPart,
+      randomPart: randomChars(randomLength, alphabet),
+      checksum: resolveChecksum(checksum),
+      versioned,
+      alphabet,
+    };
+  }
+
+  function nextTimestamp(): number | bigint {
+    const now = readClock();
+
+    if (now > lastTimestamp) {
+      lastTimestamp = now;
+      counter = 0;
+    } else if (!monotonic && now === lastTimestamp) {
+      counter++;
+    } else if (++counter >= 1000) {
+      advance();
+    }
+
+    const sequence = monotonic ? counter : counter % 1000;
+    return timestampValue(lastTimestamp, sequence);
+  }
+
+  function next<T extends Record<string, unknown>>(
+    options: ZeroIdOptions<T> = {},
+  ): string {
+    return assemble(layout(nextTimestamp(), options));
   }
-  return encodeBase62(sum, 2);
+
+  function* stream<T extends Record<string, unknown>>(
+    count: number = Infinity,
+    options: ZeroIdOptions<T> = {},
+  ): IterableIterator<string> {
+    const nextByte = createEntropyPool(random);
+    const randomChars = (length: number, alphabet: Alphabet) =>
+      pooledBase62(length, nextByte, alphabet);
+
+    for (let i = 0; i < count; i++) {
+      yield assemble(layout(nextTimestamp(), options, randomChars));
+    }
+  }
+
+  function readClock(): number {
+    let now = clock();
+
+    if (now < lastClock) {
+      reportClockRegression?.({ previous: lastClock, current: now });
+
+      if (onClockRegression === "throw") {
+        throw new ClockRegressionError(lastClock, now);
+      }
+      if (onClockRegression === "wait") {
+        while (now < lastTimestamp) now = clock();
+      }
+    }
+
+    lastClock = now;
+    return now;
+  }
+
+  function advance(): void {
+    switch (onCounterExhausted) {
+      case "throw":
+        throw new CounterExhaustedError(lastTimestamp);
+      case "wait": {
+        let now = clock();
+        while (now <= lastTimestamp) now = clock();
+        lastTimestamp = now;
+        break;
+      }
+      case "borrow":
+        lastTimestamp++;
+        break;
+    }
+    counter = 0;
+  }
+
+  return {
+    next,
+    at(timestamp, options = {}) {
+      const ts = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+      return assemble(layout(timestampValue(ts, 0), options));
+    },
+    batch(count, options = {}) {
+      return [...stream(count, options)];
+    },
+    stream,
+    decode(id) {
+      return decodeZeroId(id, defaultPrefix, decodeOptions);
+    },
+    parse(id) {
+      return parseZeroId(id, defaultPrefix, decodeOptions);
+    },
+    async nextEncrypted(options = {}) {
+      const { key = encryption?.key, encryptTimestamp } = options;
+
+      if (!key) {
+        throw new Error("Encrypting a zeroId requires a key");
+      }
+
+      return assembleEncrypted(layout(nextTimestamp(), options), {
+        key,
+        encryptTimestamp: encryptTimestamp ?? encryption?.encryptTimestamp,
+      });
+    },
+    async decrypt(id) {
+      if (!encryption) {
+        throw new Error("Decrypting a zeroId requires a key");
+      }
+
+      return decryptZeroId(id, encryption.key, defaultPrefix, decodeOptions);
+    },
+    async nextSigned(options = {}) {
+      if (!signing) {
+        throw new Error("Signing a zeroId requires a key");
+      }
+
+      const { prefix = defaultPrefix, checksum = defaultChecksum } = options;
+      requireBase62(
+        resolveAlphabet(options.alphabet ?? defaultAlphabet),
+        "Signing",
+      );
+      return signZeroId(next(options), signing.key, prefix, { checksum });
+    },
+    async verify(id) {
+      if (!signing) {
+        throw new Error("Verifying a zeroId requires a key");
+      }
+
+      return verifySignedZeroId(
+        id,
+        signing.verificationKeys ?? [signing.key],
+        defaultPrefix,
+        { checksum: defaultChecksum },
+      );
+    },
+    reset() {
+      random = createRandom();
+      lastClock = 0;
+      lastTimestamp = 0;
+      counter = 0;
+    },
+  };
+}
+
+const defaultGenerator = createZeroIdGenerator();
+
+export function zeroId<T extends Record<string, unknown>>(
+  options: ZeroIdOptions<T> = {},
+): string {
+  return defaultGenerator.next(options);
+}
+
+export function zeroIdAt<T extends Record<string, unknown>>(
+  timestamp: number | Date,
+  options: Omit<ZeroIdOptions<T>, "prefix"> & { prefix?: string } = {},
+): string {
+  return defaultGenerator.at(timestamp, options);
+}
+
+export function batch<T extends Record<string, unknown>>(
+  count: number,
+  options: ZeroIdOptions<T> = {},
+): string[] {
+  return defaultGenerator.batch(count, options);
+}
+
+export function stream<T extends Record<string, unknown>>(
+  count?: number,
+  options: ZeroIdOptions<T> = {},
+): IterableIterator<string> {
+  return defaultGenerator.stream(count, options);
+}
+
+export function encryptedZeroId<T extends Record<string, unknown>>(
+  options: ZeroIdOptions<T> & ZeroIdEncryptionOptions,
+): Promise<string> {
+  return defaultGenerator.nextEncrypted(options);
+}
+
+export function generateZeroIdKey(): Promise<ZeroIdKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export function importZeroIdKey(raw: Uint8Array): Promise<ZeroIdKey> {
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
 }
 
-function verifyChecksum(id: string): boolean {
-  if (id.length < 2) return false;
-  const data = id.slice(0, -2);
-  const checksum = id.slice(-2);
-  return calculateChecksum(data) === checksum;
-}
+export async function decryptZeroId<T = Record<string, unknown>>(
+  id: string,
+  key: ZeroIdKey,
+  prefix: string = "",
+  options: ZeroIdDecodeOptions = {},
+): Promise<DecodedZeroId<T> | null> {
+  if (prefix && !id.startsWith(prefix)) {
+    return null;
+  }
+
+  const unprefixed = id.slice(prefix.length);
+  const marker = unprefixed[0];
+
+  if (marker !== ENCRYPTED_MARKER && marker !== ENCRYPTED_TIMESTAMP_MARKER) {
+    return decodeZeroId<T>(id, prefix, options);
+  }
+
+  if (!/^[0-9A-Za-z]+$/.test(unprefixed)) return null;
+
+  const encryptedTimestamp = marker === ENCRYPTED_TIMESTAMP_MARKER;
+  const flagsIndex = encryptedTimestamp ? 1 : 10;
+  const flags = readFlags(unprefixed[flagsIndex]);
+
+  if (!flags || !checksumMatches(options.checksum, flags.checksum)) {
+    return null;
+  }
+
+  const { checksum, nodeIdLength } = flags;
+  let body = unprefixed;
+
+  if (checksum) {
+    if (!verifyChecksum(body, checksum)) return null;
+    body = body.slice(0, -2);
+  }
+
+  const sealedStart = flagsIndex + 1 + nodeIdLength;
+  const sealedLength = Number(
+    decodeBase62(body.slice(sealedStart, sealedStart + 3)),
+  );
+  const sealedEnd = sealedStart + 3 + sealedLength;
+  const sealed = unpackBase62(body.slice(sealedStart + 3, sealedEnd));
+  const randomPart = body.slice(sealedEnd);
+
+  if (
+    !sealed ||
+    sealed.length < ENCRYPTION_IV_LENGTH + ENCRYPTION_TAG_LENGTH ||
+    !randomPart
+  ) {
+    return null;
+  }
+
+  let plaintext: string;
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: new Uint8Array(sealed.slice(0, ENCRYPTION_IV_LENGTH)),
+        additionalData: new TextEncoder().encode(
+          prefix + body.slice(0, sealedStart) + randomPart,
+        ),
+      },
+      key,
+      new Uint8Array(sealed.slice(ENCRYPTION_IV_LENGTH)),
+    );
+    plaintext = new TextDecoder().decode(decrypted);
+  } catch {
+    return null;
+  }
+
+  const timestampPart = encryptedTimestamp
+    ? plaintext.slice(0, 9)
+    : body.slice(1, 10);
+  const timestamp = parseTimestamp(timestampPart);
+  if (timestamp === null) return null;
+
+  const metadataBlock = encryptedTimestamp ? plaintext.slice(9) : plaintext;
+  let metadata: T | undefined;
+
+  if (flags.metadata) {
+    const metadataResult = decodeMetadata<T>(metadataBlock);
+    if (!metadataResult || metadataResult.length !== metadataBlock.length) {
+      return null;
+    }
+    metadata = metadataResult.metadata;
+  }
+
+  if (
+    options.metadataSchema &&
+    checkMetadata(options.metadataSchema, metadata, metadataBlock.length)
+  ) {
+    return null;
+  }
+
+  return {
+    timestamp,
+    createdAt: new Date(timestamp),
+    counter: parseCounter(timestampPart),
+    random: randomPart,
+    prefix,
+    checksum,
+    version: constants.FORMAT_VERSION,
+    ...(nodeIdLength > 0 && {
+      nodeId: Number(
+        decodeBase62(body.slice(flagsIndex + 1, flagsIndex + 1 + nodeIdLength)),
+      ),
+    }),
+    metadata,
+  };
+}
+
+export async function importZeroIdSigningKey(
+  id: string,
+  secret: Uint8Array,
+): Promise<ZeroIdSigningKey> {
+  if (!/^[0-9A-Za-z]$/.test(id)) {
+    throw new RangeError("Signing key id must be a single base62 character");
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    secret,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+
+  return { id, key };
+}
+
+export async function signZeroId(
+  id: string,
+  signingKey: ZeroIdSigningKey,
+  prefix: string = "",
+  options: { checksum?: boolean | ChecksumScheme } = {},
+): Promise<string> {
+  if (prefix && !id.startsWith(prefix)) {
+    throw new Error("Invalid zeroId format");
+  }
+
+  const checksum = checksumOf(id.slice(prefix.length), options.checksum);
+  const body = checksum ? id.slice(0, -2) : id;
+  const signed =
+    body + signingKey.id + (await signatureTag(body, signingKey.key));
+
+  if (!checksum) return signed;
+
+  return prefix + appendChecksum(signed.slice(prefix.length), checksum);
+}
+
+export async function verifySignedZeroId(
+  id: string,
+  keys: ZeroIdSigningKey | ZeroIdSigningKey[],
+  prefix: string = "",
+  options: { checksum?: boolean | ChecksumScheme } = {},
+): Promise<string | null> {
+  if (prefix && !id.startsWith(prefix)) {
+    return null;
+  }
+
+  const unprefixed = id.slice(prefix.length);
+  const checksum = checksumOf(unprefixed, options.checksum);
+
+  if (checksum && !verifyChecksum(unprefixed, checksum)) return null;
+
+  const signed = checksum ? id.slice(0, -2) : id;
+  const signatureStart = signed.length - SIGNATURE_TAG_LENGTH - 1;
 
-export function zeroId<T extends Record<string, unknown>>(
-  options: ZeroIdOptions<T> = {},
-): string {
-  const { prefix = "", randomLength = 7, metadata, checksum = false } = options;
-  const now = Date.now();
+  if (signatureStart <= prefix.length) return null;
 
-  if (now === lastTimestamp) {
-    counter++;
-  } else {
-    lastTimestamp = now;
-    counter = 0;
+  const body = signed.slice(0, signatureStart);
+  const keyId = signed[signatureStart];
+  const tag = signed.slice(signatureStart + 1);
+  const signingKey = (Array.isArray(keys) ? keys : [keys]).find(
+    (candidate) => candidate.id === keyId,
+  );
+
+  if (!signingKey) return null;
+
+  const expected = await signatureTag(body, signingKey.key);
+  let difference = 0;
+
+  for (let i = 0; i < SIGNATURE_TAG_LENGTH; i++) {
+    difference |= expected.charCodeAt(i) ^ tag.charCodeAt(i);
   }
 
-  const timestampWithCounter = BigInt(now) * 1000n + BigInt(counter % 1000);
-  const timestampPart = encodeBase62(timestampWithCounter, 9);
-  const metadataPart = metadata ? encodeMetadata(metadata) : "";
-  const randomPart = randomBase62(randomLength);
+  if (difference !== 0) return null;
 
-  const core = timestampPart + metadataPart + randomPart;
-  const checksumPart = checksum ? calculateChecksum(core) : "";
+  return checksum
+    ? prefix + appendChecksum(body.slice(prefix.length), checksum)
+    : body;
+}
 
-  return prefix + core + checksumPart;
+async function signatureTag(data: string, key: ZeroIdKey): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(data),
+  );
+  return packBase62([
+    ...new Uint8Array(signature).slice(0, SIGNATURE_TAG_BYTES),
+  ]);
 }
 
-export function zeroIdAt<T extends Record<string, unknown>>(
-  timestamp: number | Date,
-  options: Omit<ZeroIdOptions<T>, "prefix"> & { prefix?: string } = {},
-): string {
-  const { prefix = "", randomLength = 7, metadata, checksum = false } = options;
-  const ts = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+function checksumOf(
+  unprefixed: string,
+  fallback: boolean | ChecksumScheme | undefined,
+): ChecksumScheme | null {
+  let flagsIndex: number;
+
+  switch (unprefixed[0]) {
+    case VERSION_MARKER:
+    case ENCRYPTED_MARKER:
+      flagsIndex = 10;
+      break;
+    case ENCRYPTED_TIMESTAMP_MARKER:
+      flagsIndex = 1;
+      break;
+    default:
+      return resolveChecksum(fallback);
+  }
 
-  const timestampWithCounter = BigInt(ts) * 1000n;
-  const timestampPart = encodeBase62(timestampWithCounter, 9);
-  const metadataPart = metadata ? encodeMetadata(metadata) : "";
-  const randomPart = randomBase62(randomLength);
+  return readFlags(unprefixed[flagsIndex])?.checksum ?? null;
+}
 
-  const core = timestampPart + metadataPart + randomPart;
-  const checksumPart = checksum ? calculateChecksum(core) : "";
+function appendChecksum(core: string, scheme: ChecksumScheme): string {
+  return core + calculateChecksum(core, scheme);
+}
 
-  return prefix + core + checksumPart;
+export function defineIdTypes<const M extends Record<string, string>>(
+  prefixes: M,
+  config: Omit<ZeroIdGeneratorConfig, "prefix"> = {},
+): ZeroIdTypes<M> {
+  const types: Record<string, ZeroIdType<string>> = {};
+
+  for (const [name, prefix] of Object.entries(prefixes)) {
+    const generator = createZeroIdGenerator({ ...config, prefix });
+
+    types[name] = {
+      prefix,
+      next: (options) => generator.next(options) as ZeroIdOf<string>,
+      at: (timestamp, options) =>
+        generator.at(timestamp, options) as ZeroIdOf<string>,
+      batch: (count, options) =>
+        generator.batch(count, options) as ZeroIdOf<string>[],
+      is: (id): id is ZeroIdOf<string> => generator.decode(id) !== null,
+      decode: (id) => generator.decode(id),
+      parse: (id) => generator.parse(id),
+      compare: (a, b) =>
+        compareZeroIds(a, b, { prefix, alphabet: config.alphabet }),
+    };
+  }
+
+  return types as ZeroIdTypes<M>;
 }
 
-export function batch<T extends Record<string, unknown>>(
-  count: number,
-  options: ZeroIdOptions<T> = {},
-): string[] {
-  const results: string[] = [];
-  for (let i = 0; i < count; i++) {
-    results.push(zeroId(options));
+export function identifyIdType<M extends Record<string, string>>(
+  id: string,
+  types: ZeroIdTypes<M>,
+): keyof M | null {
+  const prefix = extractPrefix(id, types);
+  if (prefix === null) return null;
+
+  for (const name of Object.keys(types) as (keyof M)[]) {
+    if (types[name].prefix === prefix) return name;
   }
-  return results;
+
+  return null;
 }
 
-export function decodeZeroId<T = Record<string, unknown>>(
+export function parseZeroId<T = Record<string, unknown>>(
   id: string,
   prefix: string = "",
-  options: { checksum?: boolean } = {},
-): DecodedZeroId<T> | null {
+  options: ZeroIdDecodeOptions = {},
+): ZeroIdParseResult<T> {
   if (prefix && !id.startsWith(prefix)) {
-    return null;
+    let position = 0;
+    while (id[position] === prefix[position]) position++;
+    return parseFailure(
+      "PREFIX_MISMATCH",
+      position,
+      `Invalid zeroId: expected prefix "${prefix}"`,
+    );
   }
 
-  let unprefixed = id.slice(prefix.length);
-
-  if (options.checksum) {
-    if (!verifyChecksum(unprefixed)) return null;
-    unprefixed = unprefixed.slice(0, -2);
-  }
+  const start = prefix.length;
+  const alphabet = resolveAlphabet(options.alphabet);
+
+  if (!isBase62(alphabet)) {
+    const raw = id.slice(start);
+    const invalid = [...raw].findIndex((char) => {
+      const normalized = alphabet.normalize(char);
+      return normalized !== "" && !alphabet.chars.includes(normalized);
+    });
+
+    if (invalid !== -1) {
+      return parseFailure(
+        "BAD_CHARSET",
+        start + invalid,
+        `Invalid zeroId: unexpected character "${raw[invalid]}"`,
+      );
+    }
 
-  if (unprefixed.length < 10 || !/^[0-9A-Za-z]+$/.test(unprefixed)) {
-    return null;
+    return parseUnversioned<T>(alphabet.normalize(raw), prefix, options);
   }
 
-  const timestampPart = unprefixed.slice(0, 9);
-  const decoded = decodeBase62(timestampPart);
+  const unprefixed = id.slice(start);
+  const invalid = unprefixed.search(/[^0-9A-Za-z]/);
 
-  if (decoded < 0n) return null;
+  if (invalid !== -1) {
+    return parseFailure(
+      "BAD_CHARSET",
+      start + invalid,
+      `Invalid zeroId: unexpected character "${unprefixed[invalid]}"`,
+    );
+  }
 
-  const timestamp = Number(decoded / 1000n);
+  if (unprefixed[0] === VERSION_MARKER) {
+    return parseVersioned<T>(unprefixed, prefix, options);
+  }
 
   if (
-    timestamp < constants.MIN_TIMESTAMP ||
-    timestamp > constants.MAX_TIMESTAMP
+    unprefixed[0] === ENCRYPTED_MARKER ||
+    unprefixed[0] === ENCRYPTED_TIMESTAMP_MARKER
   ) {
-    return null;
+    return parseFailure(
+      "ENCRYPTED",
+      start,
+      "Invalid zeroId: encrypted, decode it with decryptZeroId",
+    );
   }
 
-  const remaining = unprefixed.slice(9);
-  const metadataResult = decodeMetadata<T>(remaining);
+  return parseUnversioned<T>(unprefixed, prefix, options);
+}
 
-  return {
-    timestamp,
-    createdAt: new Date(timestamp),
-    metadata: metadataResult?.metadata,
-  };
+export function decodeZeroId<T = Record<string, unknown>>(
+  id: string,
+  prefix: string = "",
+  options: ZeroIdDecodeOptions = {},
+): DecodedZeroId<T> | null {
+  const result = parseZeroId<T>(id, prefix, options);
+  return result.ok ? result.value : null;
 }
 
 export function extractTimestamp(
   id: string,
   prefix: string = "",
+  options: TimestampOptions = {},
 ): number | null {
   if (prefix && !id.startsWith(prefix)) {
     return null;
   }
 
-  const unprefixed = id.slice(prefix.length);
-
-  if (unprefixed.length < 9 || !/^[0-9A-Za-z]+$/.test(unprefixed.slice(0, 9))) {
-    return null;
-  }
-
-  const timestampPart = unprefixed.slice(0, 9);
-  const decoded = decodeBase62(timestampPart);
-
-  if (decoded < 0n) return null;
+  const alphabet = resolveAlphabet(options.alphabet);
+  const base62 = isBase62(alphabet);
+  const unprefixed = base62
+    ? id.slice(prefix.length)
+    : alphabet.normalize(id.slice(prefix.length));
+  const offset = base62 ? timestampOffset(unprefixed) : 0;
+  if (offset < 0) return null;
 
-  const timestamp = Number(decoded / 1000n);
+  const { timestampLength } = alphabet;
+  const timestampPart = unprefixed.slice(offset, offset + timestampLength);
 
-  if (
-    timestamp < constants.MIN_TIMESTAMP ||
-    timestamp > constants.MAX_TIMESTAMP
-  ) {
+  if (timestampPart.length < timestampLength) {
     return null;
   }
 
-  return timestamp;
+  return parseTimestamp(timestampPart, alphabet);
 }
 
-export function getAge(id: string, prefix: string = ""): number | null {
-  const timestamp = extractTimestamp(id, prefix);
+export function getAge(
+  id: string,
+  prefix: string = "",
+  options: TimestampOptions = {},
+): number | null {
+  const timestamp = extractTimestamp(id, prefix, options);
   if (timestamp === null) return null;
   return Date.now() - timestamp;
 }
@@ -270,8 +2073,9 @@ export function isBefore(
   id: string,
   date: number | Date,
   prefix: string = "",
+  options: TimestampOptions = {},
 ): boolean {
-  const timestamp = extractTimestamp(id, prefix);
+  const timestamp = extractTimestamp(id, prefix, options);
   if (timestamp === null) return false;
   const compareTime = date instanceof Date ? date.getTime() : date;
   return timestamp < compareTime;
@@ -281,8 +2085,9 @@ export function isAfter(
   id: string,
   date: number | Date,
   prefix: string = "",
+  options: TimestampOptions = {},
 ): boolean {
-  const timestamp = extractTimestamp(id, prefix);
+  const timestamp = extractTimestamp(id, prefix, options);
   if (timestamp === null) return false;
   const compareTime = date instanceof Date ? date.getTime() : date;
   return timestamp > compareTime;
@@ -290,10 +2095,16 @@ export function isAfter(
 
 export function extractPrefix(
   id: string,
-  knownPrefixes?: string[],
+  knownPrefixes?: string[] | ZeroIdTypes<Record<string, string>>,
 ): string | null {
   if (knownPrefixes) {
-    for (const prefix of knownPrefixes) {
+    const prefixes = Array.isArray(knownPrefixes)
+      ? knownPrefixes
+      : Object.values(knownPrefixes)
+          .map((type) => type.prefix)
+          .sort((a, b) => b.length - a.length);
+
+    for (const prefix of prefixes) {
       if (id.startsWith(prefix)) {
         return prefix;
       }
@@ -312,34 +2123,244 @@ export function extractPrefix(
 export function isValidZeroId(
   id: string,
   prefix: string = "",
-  options: { checksum?: boolean } = {},
+  options: ZeroIdDecodeOptions = {},
 ): boolean {
   return decodeZeroId(id, prefix, options) !== null;
 }
 
+export function zeroIdSchema<
+  const P extends string = "",
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(options: ZeroIdSchemaOptions<P, T> = {}): ZeroIdSchema<P, T> {
+  const { prefix = "", maxAge, ...decodeOptions } = options;
+
+  function validate(
+    value: unknown,
+  ): ZeroIdSchemaResult<ZeroIdSchemaOutput<P, T>> {
+    if (typeof value !== "string") {
+      return { issues: [{ message: "Expected a zeroId string" }] };
+    }
+
+    const result = parseZeroId<T>(value, prefix, decodeOptions);
+
+    if (!result.ok) {
+      return { issues: [{ message: result.error.message }] };
+    }
+
+    if (maxAge !== undefined && Date.now() - result.value.timestamp > maxAge) {
+      return {
+        issues: [{ message: `Invalid zeroId: older than ${maxAge}ms` }],
+      };
+    }
+
+    return { value: { ...result.value, id: value as ZeroIdOf<P> } };
+  }
+
+  return {
+    "~standard": { version: 1, vendor: "zero-id", validate },
+  };
+}
+
+export function normalizeZeroId(
+  id: string,
+  prefix: string = "",
+  options: { alphabet?: AlphabetName | Alphabet } = {},
+): string {
+  if (prefix && !id.startsWith(prefix)) return id;
+
+  const alphabet = resolveAlphabet(options.alphabet);
+  return prefix + alphabet.normalize(id.slice(prefix.length));
+}
+
+export function formatZeroId(
+  id: string,
+  prefix: string = "",
+  options: { groupSize?: number } = {},
+): string {
+  const { groupSize = 4 } = options;
+
+  if (!Number.isInteger(groupSize) || groupSize < 1) {
+    throw new RangeError("groupSize must be a positive integer");
+  }
+
+  const unprefixed = id.slice(prefix.length);
+  const groups: string[] = [];
+
+  for (let i = 0; i < unprefixed.length; i += groupSize) {
+    groups.push(unprefixed.slice(i, i + groupSize));
+  }
+
+  return id.slice(0, prefix.length) + groups.join("-");
+}
+
 export function compareZeroIds(
   a: string,
   b: string,
-  prefix: string = "",
+  prefixOrOptions: string | CompareZeroIdsOptions = "",
 ): number {
-  const unprefixedA = prefix ? a.slice(prefix.length) : a;
-  const unprefixedB = prefix ? b.slice(prefix.length) : b;
+  const options =
+    typeof prefixOrOptions === "string"
+      ? { prefix: prefixOrOptions }
+      : prefixOrOptions;
+  const keyA = sortKey(a, options);
+  const keyB = sortKey(b, options);
+
+  for (let i = 0; i < keyA.length; i++) {
+    if (keyA[i]! < keyB[i]!) return -1;
+    if (keyA[i]! > keyB[i]!) return 1;
+  }
 
-  if (unprefixedA.length < 9 || unprefixedB.length < 9) {
-    throw new Error("Invalid zeroId format");
+  return 0;
+}
+
+function sortKey(id: string, options: CompareZeroIdsOptions): string[] {
+  const { mixedPrefixes } = options;
+  const prefix = mixedPrefixes
+    ? (extractPrefix(id, options.knownPrefixes) ?? "")
+    : (options.prefix ?? "");
+
+  if (!id.startsWith(prefix)) {
+    let position = 0;
+    while (id[position] === prefix[position]) position++;
+    throw new ZeroIdParseError(
+      "PREFIX_MISMATCH",
+      position,
+      `Invalid zeroId format: expected prefix "${prefix}"`,
+    );
+  }
+
+  const unprefixed = id.slice(prefix.length);
+  const alphabet = resolveAlphabet(options.alphabet);
+  const offset = isBase62(alphabet) ? timestampOffset(unprefixed) : 0;
+
+  if (offset < 0) {
+    throw new ZeroIdParseError(
+      "ENCRYPTED",
+      prefix.length,
+      "Invalid zeroId format: the timestamp is encrypted",
+    );
   }
 
-  const timestampA = unprefixedA.slice(0, 9);
-  const timestampB = unprefixedB.slice(0, 9);
+  const end = offset + alphabet.timestampLength;
 
-  if (timestampA < timestampB) return -1;
-  if (timestampA > timestampB) return 1;
-  return 0;
+  if (unprefixed.length < end) {
+    throw new ZeroIdParseError(
+      "TOO_SHORT",
+      id.length,
+      "Invalid zeroId format: too short",
+    );
+  }
+
+  const timestamp = unprefixed.slice(offset, end);
+  const rest = unprefixed.slice(end);
+
+  return mixedPrefixes === "group"
+    ? [prefix, timestamp, rest, id]
+    : [timestamp, rest, prefix, id];
+}
+
+export function minIdAt(
+  timestamp: number | Date,
+  options: IdBoundOptions = {},
+): string {
+  return idBound(timestamp, 0, "", options);
+}
+
+export function maxIdAt(
+  timestamp: number | Date,
+  options: IdBoundOptions = {},
+): string {
+  const alphabet = resolveAlphabet(options.alphabet);
+
+  if (alphabet.chars[alphabet.chars.length - 1]! >= BOUND_SENTINEL) {
+    throw new RangeError(
+      `maxIdAt needs an alphabet that sorts below "${BOUND_SENTINEL}"`,
+    );
+  }
+
+  return idBound(timestamp, 999, BOUND_SENTINEL, options);
+}
+
+export function idRangeFor(
+  from: number | Date,
+  to: number | Date,
+  prefix: string = "",
+  options: Omit<IdBoundOptions, "prefix"> = {},
+): IdRange {
+  return {
+    min: minIdAt(from, { ...options, prefix }),
+    max: maxIdAt(to, { ...options, prefix }),
+  };
+}
+
+export function bufferRangeFor(
+  from: number | Date,
+  to: number | Date,
+): BufferRange {
+  return {
+    min: bufferBound(from, 0, 0x00),
+    max: bufferBound(to, 999, 0xff),
+  };
+}
+
+function bufferBound(
+  timestamp: number | Date,
+  counter: number,
+  fill: number,
+): Uint8Array {
+  const ts = boundTimestamp(timestamp);
+  const buffer = new Uint8Array(BUFFER_LENGTH).fill(fill, 8);
+  const view = new DataView(buffer.buffer);
+
+  view.setUint16(0, Math.floor(ts / 2 ** 32));
+  view.setUint32(2, ts % 2 ** 32);
+  view.setUint16(6, counter);
+
+  return buffer;
+}
+
+function boundTimestamp(timestamp: number | Date): number {
+  const ts = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+
+  if (
+    !Number.isInteger(ts) ||
+    ts < constants.MIN_TIMESTAMP ||
+    ts > constants.MAX_TIMESTAMP
+  ) {
+    throw new RangeError(`Timestamp ${ts} is outside the zeroId range`);
+  }
+
+  return ts;
+}
+
+function idBound(
+  timestamp: number | Date,
+  counter: number,
+  suffix: string,
+  options: IdBoundOptions,
+): string {
+  const { prefix = "", versioned = false } = options;
+  const ts = boundTimestamp(timestamp);
+  const alphabet = resolveAlphabet(options.alphabet);
+
+  if (versioned) requireBase62(alphabet, "The versioned layout");
+
+  return (
+    prefix +
+    (versioned ? VERSION_MARKER : "") +
+    encodeBase62(
+      BigInt(ts) * 1000n + BigInt(counter),
+      alphabet.timestampLength,
+      alphabet,
+    ) +
+    suffix
+  );
 }
 
 export function getTimestampRange(
   ids: string[],
   prefix: string = "",
+  options: TimestampOptions = {},
 ): TimestampRange | null {
   if (ids.length === 0) return null;
 
@@ -347,7 +2368,7 @@ export function getTimestampRange(
   let newest = -Infinity;
 
   for (const id of ids) {
-    const timestamp = extractTimestamp(id, prefix);
+    const timestamp = extractTimestamp(id, prefix, options);
     if (timestamp === null) continue;
     if (timestamp < oldest) oldest = timestamp;
     if (timestamp > newest) newest = timestamp;
@@ -366,55 +2387,108 @@ export function getTimestampRange(
 
 export function toBuffer(id: string, prefix: string = ""): Uint8Array {
   const unprefixed = id.slice(prefix.length);
-  const bytes: number[] = [];
 
-  for (let i = 0; i < unprefixed.length; i += 2) {
-    if (i + 1 < unprefixed.length) {
-      const high = BASE62_CHARS.indexOf(unprefixed[i]!);
-      const low = BASE62_CHARS.indexOf(unprefixed[i + 1]!);
-      bytes.push((high << 4) | (low >> 2));
-      if (i + 2 < unprefixed.length) {
-        const next = BASE62_CHARS.indexOf(unprefixed[i + 2]!);
-        bytes.push(((low & 0x03) << 6) | next);
-        i++;
-      }
-    } else {
-      bytes.push(BASE62_CHARS.indexOf(unprefixed[i]!) << 2);
-    }
+  if (
+    (prefix && !id.startsWith(prefix)) ||
+    unprefixed.length !== STANDARD_ID_LENGTH
+  ) {
+    throw new RangeError(
+      `toBuffer only supports ${STANDARD_ID_LENGTH}-character zeroIds without checksum, node ID or metadata`,
+    );
+  }
+
+  const timestampPart = unprefixed.slice(0, constants.TIMESTAMP_LENGTH);
+  const timestampWithCounter = decodeBase62(timestampPart);
+  const random = decodeBase62(unprefixed.slice(constants.TIMESTAMP_LENGTH));
+
+  if (random < 0n || parseTimestamp(timestampPart) === null) {
+    throw new Error("Invalid zeroId format");
   }
 
-  return new Uint8Array(bytes);
+  const buffer = new Uint8Array(BUFFER_LENGTH);
+  const view = new DataView(buffer.buffer);
+  const timestamp = timestampWithCounter / 1000n;
+
+  view.setUint16(0, Number(timestamp >> 32n));
+  view.setUint32(2, Number(timestamp & 0xffffffffn));
+  view.setUint16(6, Number(timestampWithCounter % 1000n));
+  view.setBigUint64(8, random);
+
+  return buffer;
 }
 
 export function fromBuffer(buffer: Uint8Array, prefix: string = ""): string {
-  let result = "";
-  let i = 0;
-
-  while (i < buffer.length) {
-    const b1 = buffer[i]!;
-    result += BASE62_CHARS[b1 >> 2];
-
-    if (i + 1 < buffer.length) {
-      const b2 = buffer[i + 1]!;
-      result += BASE62_CHARS[((b1 & 0x03) << 4) | (b2 >> 4)];
-      result +=
-        BASE62_CHARS[
-          ((b2 & 0x0f) << 2) | (i + 2 < buffer.length ? buffer[i + 2]! >> 6 : 0)
-        ];
-
-      if (i + 2 < buffer.length) {
-        result += BASE62_CHARS[buffer[i + 2]! & 0x3f];
-        i += 3;
-      } else {
-        i += 2;
-      }
-    } else {
-      result += BASE62_CHARS[(b1 & 0x03) << 4];
-      i++;
-    }
+  if (buffer.length !== BUFFER_LENGTH) {
+    throw new RangeError(`A zeroId buffer must be ${BUFFER_LENGTH} bytes`);
   }
 
-  return prefix + result;
+  const view = new DataView(buffer.buffer, buffer.byteOffset, BUFFER_LENGTH);
+  const timestamp = view.getUint16(0) * 2 ** 32 + view.getUint32(2);
+  const counter = view.getUint16(6);
+  const random = view.getBigUint64(8);
+  const timestampWithCounter = BigInt(timestamp) * 1000n + BigInt(counter);
+
+  if (
+    timestamp < constants.MIN_TIMESTAMP ||
+    timestamp > constants.MAX_TIMESTAMP ||
+    counter >= 1000 ||
+    timestampWithCounter >= 62n ** BigInt(constants.TIMESTAMP_LENGTH) ||
+    random >= 62n ** BigInt(constants.DEFAULT_RANDOM_LENGTH)
+  ) {
+    throw new Error("Invalid zeroId buffer");
+  }
+
+  return (
+    prefix +
+    encodeBase62(timestampWithCounter, constants.TIMESTAMP_LENGTH) +
+    encodeBase62(random, constants.DEFAULT_RANDOM_LENGTH)
+  );
+}
+
+export function toUUIDv7(id: string, prefix: string = ""): string {
+  const bytes = toBuffer(id, prefix);
+
+  bytes[6] = 0x70 | bytes[6]!;
+  bytes[8] = 0x80 | bytes[8]!;
+
+  const hex = Array.from(bytes, (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function fromUUIDv7(uuid: string, prefix: string = ""): string {
+  if (!UUID_PATTERN.test(uuid)) {
+    throw new Error("Invalid UUID format");
+  }
+
+  const hex = uuid.replace(/-/g, "");
+  const bytes = new Uint8Array(BUFFER_LENGTH);
+
+  for (let i = 0; i < BUFFER_LENGTH; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  if (bytes[6]! >> 4 !== 7 || bytes[8]! >> 6 !== 2) {
+    throw new RangeError("UUID is not an RFC 9562 version 7 UUID");
+  }
+
+  bytes[6] = bytes[6]! & 0x0f;
+  bytes[8] = bytes[8]! & 0x3f;
+
+  const view = new DataView(bytes.buffer);
+
+  if (
+    view.getUint16(6) >= 1000 ||
+    view.getBigUint64(8) >= 62n ** BigInt(constants.DEFAULT_RANDOM_LENGTH)
+  ) {
+    throw new RangeError(
+      "UUID cannot be converted to a zeroId without losing data",
+    );
+  }
+
+  return fromBuffer(bytes, prefix);
 }
 
 export function toUUID(id: string, prefix: string = ""): string {
@@ -453,7 +2527,187 @@ export function fromUUID(uuid: string, prefix: string = ""): string {
   return prefix + result;
 }
 
+export function fromULID(ulid: string, options: ForeignIdOptions = {}): string {
+  const normalized = CROCKFORD.normalize(ulid);
+
+  if (!/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/.test(normalized)) {
+    throw new Error("Invalid ULID format");
+  }
+
+  const value = decodeBase62(normalized, CROCKFORD);
+  const timestamp = Number(value >> ULID_ENTROPY_BITS);
+  const entropy = value & ((1n << ULID_ENTROPY_BITS) - 1n);
+
+  return buildForeignId("ulid", timestamp, entropy, 14, options);
+}
+
+export function toULID(id: string, prefix: string = ""): string {
+  const { timestamp, entropy } = readForeignId(
+    "ulid",
+    id,
+    prefix,
+    ULID_ENTROPY_BITS,
+  );
+
+  return encodeBase62(
+    (BigInt(timestamp) << ULID_ENTROPY_BITS) | entropy,
+    26,
+    CROCKFORD,
+  );
+}
+
+export function fromKSUID(
+  ksuid: string,
+  options: ForeignIdOptions = {},
+): string {
+  const value = /^[0-9A-Za-z]{27}$/.test(ksuid) ? decodeBase62(ksuid) : -1n;
+
+  if (value < 0n || value >= 1n << (KSUID_PAYLOAD_BITS + 32n)) {
+    throw new Error("Invalid KSUID format");
+  }
+
+  const seconds = Number(value >> KSUID_PAYLOAD_BITS) + KSUID_EPOCH;
+  const payload = value & ((1n << KSUID_PAYLOAD_BITS) - 1n);
+
+  return buildForeignId("ksuid", seconds * 1000, payload, 22, options);
+}
+
+export function toKSUID(id: string, prefix: string = ""): string {
+  const { timestamp, entropy } = readForeignId(
+    "ksuid",
+    id,
+    prefix,
+    KSUID_PAYLOAD_BITS,
+  );
+  const seconds = timestamp / 1000 - KSUID_EPOCH;
+
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds >= 2 ** 32) {
+    throw new LossyConversionError(
+      "ksuid",
+      "KSUID timestamps are whole seconds from 2014-05-13 to 2150",
+    );
+  }
+
+  return encodeBase62((BigInt(seconds) << KSUID_PAYLOAD_BITS) | entropy, 27);
+}
+
+export function fromSnowflake(
+  snowflake: string | bigint,
+  options: ForeignIdOptions & SnowflakeOptions = {},
+): string {
+  const { epoch = SNOWFLAKE_EPOCH } = options;
+  const value =
+    typeof snowflake === "bigint"
+      ? snowflake
+      : /^\d{1,19}$/.test(snowflake)
+        ? BigInt(snowflake)
+        : -1n;
+
+  if (value < 0n || value >= 1n << 63n) {
+    throw new Error("Invalid Snowflake format");
+  }
+
+  const timestamp = Number(value >> SNOWFLAKE_ENTROPY_BITS) + epoch;
+  const entropy = value & ((1n << SNOWFLAKE_ENTROPY_BITS) - 1n);
+
+  return buildForeignId("snowflake", timestamp, entropy, 4, options);
+}
+
+export function toSnowflake(
+  id: string,
+  prefix: string = "",
+  options: SnowflakeOptions = {},
+): string {
+  const { epoch = SNOWFLAKE_EPOCH } = options;
+  const { timestamp, entropy } = readForeignId(
+    "snowflake",
+    id,
+    prefix,
+    SNOWFLAKE_ENTROPY_BITS,
+  );
+  const elapsed = timestamp - epoch;
+
+  if (elapsed < 0 || elapsed >= 2 ** 41) {
+    throw new LossyConversionError(
+      "snowflake",
+      "Timestamp is outside the range of the Snowflake epoch",
+    );
+  }
+
+  return ((BigInt(elapsed) << SNOWFLAKE_ENTROPY_BITS) | entropy).toString();
+}
+
+function buildForeignId(
+  format: ForeignIdFormat,
+  timestamp: number,
+  entropy: bigint,
+  defaultRandomLength: number,
+  options: ForeignIdOptions,
+): string {
+  const { prefix = "", randomLength = defaultRandomLength } = options;
+  const scale = 62n ** BigInt(randomLength);
+  const counter = entropy / scale;
+  const timestampWithCounter = BigInt(timestamp) * 1000n + counter;
+
+  if (counter >= 1000n) {
+    throw new LossyConversionError(
+      format,
+      `${format} entropy does not fit in ${randomLength} random characters`,
+    );
+  }
+
+  if (
+    timestamp < constants.MIN_TIMESTAMP ||
+    timestamp > constants.MAX_TIMESTAMP ||
+    timestampWithCounter >= 62n ** BigInt(constants.TIMESTAMP_LENGTH)
+  ) {
+    throw new LossyConversionError(
+      format,
+      `${format} timestamp ${timestamp} is outside the zeroId range`,
+    );
+  }
+
+  return (
+    prefix +
+    encodeBase62(timestampWithCounter, constants.TIMESTAMP_LENGTH) +
+    encodeBase62(entropy % scale, randomLength)
+  );
+}
+
+function readForeignId(
+  format: ForeignIdFormat,
+  id: string,
+  prefix: string,
+  entropyBits: bigint,
+): { timestamp: number; entropy: bigint } {
+  const unprefixed = id.slice(prefix.length);
+  const timestampPart = unprefixed.slice(0, constants.TIMESTAMP_LENGTH);
+  const randomPart = unprefixed.slice(constants.TIMESTAMP_LENGTH);
+  const timestamp = extractTimestamp(id, prefix);
+
+  if (
+    timestamp === null ||
+    !randomPart ||
+    !/^[0-9A-Za-z]+$/.test(randomPart) ||
+    timestampOffset(unprefixed) !== 0
+  ) {
+    throw new Error("Invalid zeroId format");
+  }
+
+  const counter = decodeBase62(timestampPart) % 1000n;
+  const entropy =
+    counter * 62n ** BigInt(randomPart.length) + decodeBase62(randomPart);
+
+  if (entropy >= 1n << entropyBits) {
+    throw new LossyConversionError(
+      format,
+      `zeroId counter and random part do not fit in ${entropyBits} bits`,
+    );
+  }
+
+  return { timestamp, entropy };
+}
+
 export function resetCounter(): void {
-  lastTimestamp = 0;
-  counter = 0;
+  defaultGenerator.reset();
 }
@@ -0,0 +1,114 @@
+import {
+  ColumnNode,
+  DefaultInsertValueNode,
+  InsertQueryNode,
+  PrimitiveValueListNode,
+  sql,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  type ColumnType,
+  type KyselyPlugin,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryResult,
+  type RawBuilder,
+  type RootOperationNode,
+  type SqlBool,
+  type UnknownRow,
+} from "kysely";
+import {
+  idRangeFor,
+  parseZeroId,
+  zeroId,
+  type ChecksumScheme,
+  type ZeroIdOf,
+} from "./index";
+
+export type ZeroIdColumn<P extends string = ""> = ColumnType<
+  ZeroIdOf<P>,
+  ZeroIdOf<P> | undefined,
+  never
+>;
+
+export interface ZeroIdTableOptions {
+  prefix?: string;
+  column?: string;
+  checksum?: boolean | ChecksumScheme;
+}
+
+export function zeroIdPlugin(
+  tables: Record<string, ZeroIdTableOptions>,
+): KyselyPlugin {
+  return {
+    transformQuery({ node }: PluginTransformQueryArgs): RootOperationNode {
+      if (!InsertQueryNode.is(node) || !node.into) return node;
+
+      const table = node.into.table.identifier.name;
+      const options = Object.hasOwn(tables, table) ? tables[table] : undefined;
+
+      return options ? withZeroIds(node, table, options) : node;
+    },
+    async transformResult({
+      result,
+    }: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+      return result;
+    },
+  };
+}
+
+export function createdBetween(
+  column: string,
+  from: number | Date,
+  to: number | Date,
+  prefix: string = "",
+): RawBuilder<SqlBool> {
+  const { min, max } = idRangeFor(from, to, prefix);
+
+  return sql<SqlBool>`${sql.ref(column)} between ${min} and ${max}`;
+}
+
+function withZeroIds(
+  node: InsertQueryNode,
+  table: string,
+  options: ZeroIdTableOptions,
+): InsertQueryNode {
+  const { prefix = "", column = "id", checksum = false } = options;
+
+  if (!node.values || !ValuesNode.is(node.values)) return node;
+
+  const columns = node.columns ?? [];
+  const index = columns.findIndex((node) => node.column.name === column);
+
+  const rows = node.values.values.map((row) => {
+    const values: OperationNode[] = PrimitiveValueListNode.is(row)
+      ? row.values.map((value) => ValueNode.create(value))
+      : [...row.values];
+    const value = values[index];
+    const generate = () => ValueNode.create(zeroId({ prefix, checksum }));
+
+    if (index === -1) return ValueListNode.create([...values, generate()]);
+
+    if (!value || DefaultInsertValueNode.is(value)) {
+      values[index] = generate();
+      return ValueListNode.create(values);
+    }
+
+    if (ValueNode.is(value)) {
+      if (typeof value.value !== "string") {
+        throw new TypeError(`${table}.${column} must be a zeroId string`);
+      }
+
+      const result = parseZeroId(value.value, prefix, { checksum });
+      if (!result.ok) throw result.error;
+    }
+
+    return row;
+  });
+
+  return InsertQueryNode.cloneWith(node, {
+    columns: index === -1 ? [...columns, ColumnNode.create(column)] : columns,
+    values: ValuesNode.create(rows),
+  });
+}
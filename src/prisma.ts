@@ -0,0 +1,100 @@
+import { idRangeFor, parseZeroId, zeroId, type ChecksumScheme } from "./index";
+
+export interface ZeroIdModelOptions {
+  prefix?: string;
+  field?: string;
+  checksum?: boolean | ChecksumScheme;
+}
+
+export interface ZeroIdQueryArgs {
+  model?: string;
+  args: Record<string, unknown>;
+  query: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+type ZeroIdQueryHook = (params: ZeroIdQueryArgs) => Promise<unknown>;
+
+export interface ZeroIdExtension {
+  name: "zero-id";
+  query: {
+    $allModels: {
+      create: ZeroIdQueryHook;
+      createMany: ZeroIdQueryHook;
+      createManyAndReturn: ZeroIdQueryHook;
+      upsert: ZeroIdQueryHook;
+    };
+  };
+}
+
+export interface ZeroIdFilter {
+  gte: string;
+  lte: string;
+}
+
+export function zeroIdExtension(
+  models: Record<string, ZeroIdModelOptions>,
+): ZeroIdExtension {
+  const hook =
+    (key: "data" | "create"): ZeroIdQueryHook =>
+    async ({ model, args, query }) => {
+      const options =
+        model && Object.hasOwn(models, model) ? models[model] : undefined;
+
+      if (!options || args[key] === undefined) return query(args);
+
+      const data = args[key];
+
+      return query({
+        ...args,
+        [key]: Array.isArray(data)
+          ? data.map((row) => withZeroId(row, model!, options))
+          : withZeroId(data, model!, options),
+      });
+    };
+
+  return {
+    name: "zero-id",
+    query: {
+      $allModels: {
+        create: hook("data"),
+        createMany: hook("data"),
+        createManyAndReturn: hook("data"),
+        upsert: hook("create"),
+      },
+    },
+  };
+}
+
+export function zeroIdFilter(
+  from: number | Date,
+  to: number | Date,
+  prefix: string = "",
+): ZeroIdFilter {
+  const { min, max } = idRangeFor(from, to, prefix);
+  return { gte: min, lte: max };
+}
+
+function withZeroId(
+  data: unknown,
+  model: string,
+  options: ZeroIdModelOptions,
+): unknown {
+  const { prefix = "", field = "id", checksum = false } = options;
+
+  if (typeof data !== "object" || data === null) return data;
+
+  const value = (data as Record<string, unknown>)[field];
+
+  if (value === undefined) {
+    return { ...data, [field]: zeroId({ prefix, checksum }) };
+  }
+
+  if (typeof value !== "string") {
+    throw new TypeError(`${model}.${field} must be a zeroId string`);
+  }
+
+  const result = parseZeroId(value, prefix, { checksum });
+  if (!result.ok) throw result.error;
+
+  return data;
+}
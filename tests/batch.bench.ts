@@ -0,0 +1,30 @@
+import { bench, describe } from "vitest";
+import { batch, createZeroIdGenerator, zeroId } from "../src";
+
+const COUNT = 10_000;
+
+describe(`generate ${COUNT} IDs`, () => {
+  bench("zeroId in a loop", () => {
+    for (let i = 0; i < COUNT; i++) zeroId();
+  });
+
+  bench("batch", () => {
+    batch(COUNT);
+  });
+
+  bench("stream", () => {
+    for (const _ of createZeroIdGenerator().stream(COUNT));
+  });
+});
+
+describe(`generate ${COUNT} prefixed IDs with checksums`, () => {
+  const options = { prefix: "user_", checksum: true };
+
+  bench("zeroId in a loop", () => {
+    for (let i = 0; i < COUNT; i++) zeroId(options);
+  });
+
+  bench("batch", () => {
+    batch(COUNT, options);
+  });
+});
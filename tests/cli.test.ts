@@ -0,0 +1,142 @@
+import { expect, test } from "vitest";
+import { run } from "../src/cli";
+import { createZeroIdGenerator, decodeZeroId, zeroIdAt } from "../src";
+
+async function cli(args: string[], stdin = "") {
+  const output = { code: 0, stdout: "", stderr: "" };
+  output.code = await run(args, {
+    readStdin: async () => stdin,
+    write: (text) => (output.stdout += `${text}\n`),
+    error: (text) => (output.stderr += `${text}\n`),
+  });
+  return output;
+}
+
+test("gen should print the requested number of IDs", async () => {
+  const { code, stdout } = await cli([
+    "gen",
+    "--prefix",
+    "user_",
+    "--count",
+    "3",
+    "--checksum",
+  ]);
+  const ids = stdout.trim().split("\n");
+
+  expect(code).toBe(0);
+  expect(ids).toHaveLength(3);
+  for (const id of ids) {
+    expect(decodeZeroId(id, "user_", { checksum: true })).not.toBeNull();
+  }
+});
+
+test("--checksum should accept a scheme", async () => {
+  const { stdout } = await cli(["gen", "--checksum", "mod3833"]);
+  const id = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    seed: "cli",
+    checksum: "mod3833",
+  }).next();
+
+  expect(decodeZeroId(stdout.trim(), "", { checksum: "mod3833" })).not.toBe(
+    null,
+  );
+  expect(decodeZeroId(id, "", { checksum: "legacy" })).toBeNull();
+  expect((await cli(["validate", "--checksum=mod3833", id])).code).toBe(0);
+  expect((await cli(["validate", "--checksum", "legacy", id])).code).toBe(1);
+  expect((await cli(["validate", "--checksum", id])).code).toBe(0);
+  expect((await cli(["gen", "--checksum=crc"])).code).toBe(2);
+});
+
+test("gen should support --at, --metadata and --json", async () => {
+  const { stdout } = await cli([
+    "gen",
+    "--at",
+    "2023-11-14T22:13:20.000Z",
+    "--metadata",
+    '{"region":"eu"}',
+    "--json",
+  ]);
+  const [id] = JSON.parse(stdout) as string[];
+
+  expect(decodeZeroId(id!)).toMatchObject({
+    timestamp: 1700000000000,
+    metadata: { region: "eu" },
+  });
+  expect((await cli(["gen", "--at", "yesterday"])).code).toBe(2);
+  expect(await cli(["gen", "--metadata", "{region"])).toMatchObject({
+    code: 2,
+    stderr: "--metadata must be a JSON object\n",
+  });
+});
+
+test("decode should print the parts of IDs from arguments or stdin", async () => {
+  const id = zeroIdAt(1700000000000, {
+    prefix: "order_",
+    metadata: { total: 5 },
+  });
+
+  const pretty = await cli(["decode", id]);
+  expect(pretty.stdout).toContain("2023-11-14T22:13:20.000Z");
+  expect(pretty.stdout).toContain("order_");
+  expect(pretty.stdout).toContain('{"total":5}');
+
+  const json = await cli(["decode", "--json"], `${id}\n`);
+  expect(JSON.parse(json.stdout)).toMatchObject([
+    { id, timestamp: 1700000000000, counter: 0, prefix: "order_" },
+  ]);
+});
+
+test("validate should exit with 1 when an ID is invalid", async () => {
+  const id = zeroIdAt(1700000000000);
+
+  expect((await cli(["validate", id])).code).toBe(0);
+
+  const { code, stdout } = await cli(["validate", "--json", id, "short"]);
+  expect(code).toBe(1);
+  expect(JSON.parse(stdout)).toMatchObject([
+    { id, valid: true },
+    { id: "short", valid: false, error: { code: "TOO_SHORT" } },
+  ]);
+});
+
+test("sort, range and conversions should wrap the library", async () => {
+  const older = zeroIdAt(1600000000000);
+  const newer = zeroIdAt(1700000000000);
+
+  expect((await cli(["sort"], `${newer} ${older}`)).stdout).toBe(
+    `${older}\n${newer}\n`,
+  );
+  expect(
+    JSON.parse((await cli(["range", "--json", newer, older])).stdout),
+  ).toMatchObject({ oldest: 1600000000000, newest: 1700000000000 });
+  expect((await cli(["to-uuid", newer])).stdout).toMatch(
+    /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\n$/,
+  );
+  expect((await cli(["to-hex", newer])).stdout).toMatch(/^[0-9a-f]{32}\n$/);
+  expect((await cli(["to-hex", "x"])).code).toBe(1);
+});
+
+test("range should detect the prefix of every ID", async () => {
+  const user = zeroIdAt(1600000000000, { prefix: "user_" });
+  const order = zeroIdAt(1700000000000, { prefix: "order_" });
+
+  const mixed = await cli(["range", "--json", user, order]);
+  expect(mixed.code).toBe(0);
+  expect(JSON.parse(mixed.stdout)).toMatchObject({
+    oldest: 1600000000000,
+    newest: 1700000000000,
+  });
+
+  const partial = await cli(["range", user, "user_bogus"]);
+  expect(partial.code).toBe(1);
+  expect(partial.stderr).toBe("Skipped invalid ID user_bogus\n");
+  expect(partial.stdout).toContain("(1600000000000)");
+});
+
+test("unknown commands and missing IDs should exit with 2", async () => {
+  expect((await cli(["frobnicate"])).code).toBe(2);
+  expect((await cli([])).code).toBe(2);
+  expect((await cli(["decode"])).code).toBe(2);
+  expect((await cli(["--help"])).code).toBe(0);
+});
@@ -1,8 +1,10 @@
-import { expect, test, beforeEach } from "vitest";
+import { expect, expectTypeOf, test, beforeEach, vi } from "vitest";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
 import {
   zeroId,
   zeroIdAt,
   batch,
+  stream,
   isValidZeroId,
   decodeZeroId,
   compareZeroIds,
@@ -18,6 +20,40 @@ import {
   toUUID,
   fromUUID,
   constants,
+  createZeroIdGenerator,
+  CounterExhaustedError,
+  ClockRegressionError,
+  parseZeroId,
+  ZeroIdParseError,
+  defineIdTypes,
+  identifyIdType,
+  defineMetadataSchema,
+  MetadataValidationError,
+  encryptedZeroId,
+  decryptZeroId,
+  generateZeroIdKey,
+  importZeroIdKey,
+  importZeroIdSigningKey,
+  signZeroId,
+  verifySignedZeroId,
+  normalizeZeroId,
+  formatZeroId,
+  defineAlphabet,
+  toUUIDv7,
+  fromUUIDv7,
+  fromULID,
+  toULID,
+  fromKSUID,
+  toKSUID,
+  fromSnowflake,
+  toSnowflake,
+  LossyConversionError,
+  minIdAt,
+  maxIdAt,
+  idRangeFor,
+  zeroIdSchema,
+  type DecodedZeroId,
+  type ZeroIdOf,
 } from "../src";
 
 beforeEach(() => {
@@ -235,11 +271,24 @@ test("resetCounter should reset internal state", () => {
 test("constants should export expected values", () => {
   expect(constants.TIMESTAMP_LENGTH).toBe(9);
   expect(constants.DEFAULT_RANDOM_LENGTH).toBe(7);
+  expect(constants.DEFAULT_NODE_ID_LENGTH).toBe(2);
   expect(constants.BASE62_CHARS).toHaveLength(62);
   expect(constants.MIN_TIMESTAMP).toBe(946684800000);
   expect(constants.MAX_TIMESTAMP).toBe(32503680000000);
 });
 
+test("zeroId should read the clock on every call", () => {
+  vi.useFakeTimers({ now: 1700000000000 });
+
+  try {
+    expect(extractTimestamp(zeroId())).toBe(1700000000000);
+    vi.setSystemTime(1800000000000);
+    expect(extractTimestamp(batch(2)[1]!)).toBe(1800000000000);
+  } finally {
+    vi.useRealTimers();
+  }
+});
+
 test("zeroIdAt should generate ID with specific timestamp", () => {
   const specificTime = 1700000000000;
   const id = zeroIdAt(specificTime);
@@ -289,6 +338,58 @@ test("batch should respect options", () => {
   });
 });
 
+test("batch should keep the output format of next", () => {
+  const options = { prefix: "user_", checksum: true, metadata: { a: 1 } };
+  const create = () =>
+    createZeroIdGenerator({
+      clock: () => 1700000000000,
+      seed: "format",
+      monotonic: true,
+    });
+  const looped = create();
+  const expected = Array.from({ length: 1500 }, () => looped.next(options));
+  const batched = create().batch(1500, options);
+  const anatomy = (id: string) => {
+    const { random, ...rest } = decodeZeroId(id, "user_", { checksum: true })!;
+    return { ...rest, randomLength: random.length };
+  };
+
+  expect(batched.map((id) => id.length)).toEqual(
+    expected.map((id) => id.length),
+  );
+  expect(batched.every((id) => /^user_[0-9A-Za-z]+$/.test(id))).toBe(true);
+  expect(batched.map(anatomy)).toEqual(expected.map(anatomy));
+  expect([...batched].sort(compareZeroIds)).toEqual(batched);
+  expect([...expected].sort(compareZeroIds)).toEqual(expected);
+});
+
+test("stream should yield IDs lazily from pooled entropy", () => {
+  const requests: number[] = [];
+  const generator = createZeroIdGenerator({
+    random: (bytes) => {
+      requests.push(bytes.length);
+      return crypto.getRandomValues(bytes);
+    },
+  });
+  const ids: string[] = [];
+
+  for (const id of generator.stream()) {
+    if (ids.push(id) === 1000) break;
+  }
+
+  expect(new Set(ids).size).toBe(1000);
+  expect(ids.every((id) => isValidZeroId(id))).toBe(true);
+  expect(requests.length).toBeLessThan(5);
+  expect([...stream(3, { prefix: "s_" })]).toHaveLength(3);
+});
+
+test("timestamps past the safe integer range should still encode exactly", () => {
+  const id = zeroIdAt(10000000000000);
+
+  expect(decodeZeroId(id)!.timestamp).toBe(10000000000000);
+  expect(decodeZeroId(zeroIdAt(1700000000000))!.timestamp).toBe(1700000000000);
+});
+
 test("extractTimestamp should return timestamp without full decode", () => {
   const before = Date.now();
   const id = zeroId();
@@ -470,11 +571,11 @@ test("toBuffer should handle prefix", () => {
   expect(restored.startsWith("test_")).toBe(true);
 });
 
-test("toBuffer should produce smaller output than string", () => {
+test("toBuffer should produce 16 bytes", () => {
   const id = zeroId();
   const buffer = toBuffer(id);
 
-  expect(buffer.length).toBeLessThan(id.length);
+  expect(buffer).toHaveLength(16);
 });
 
 test("toUUID should produce valid UUID format", () => {
@@ -558,3 +659,1331 @@ test("zeroIdAt should support checksum", () => {
   const decoded = decodeZeroId(id, "", { checksum: true });
   expect(decoded!.timestamp).toBe(1700000000000);
 });
+
+test("createZeroIdGenerator should use its own clock and counter", () => {
+  const generator = createZeroIdGenerator({ clock: () => 1700000000000 });
+
+  const ids = generator.batch(3);
+  const sorted = [...ids].sort(compareZeroIds);
+
+  expect(sorted).toEqual(ids);
+  expect(new Set(ids.map((id) => id.slice(0, 9))).size).toBe(3);
+  expect(generator.decode(ids[0]!)!.timestamp).toBe(1700000000000);
+});
+
+test("createZeroIdGenerator instances should not share state", () => {
+  const clock = () => 1700000000000;
+  const a = createZeroIdGenerator({ clock });
+  const b = createZeroIdGenerator({ clock });
+
+  const first = a.next();
+  a.next();
+
+  expect(b.next().slice(0, 9)).toBe(first.slice(0, 9));
+  expect(zeroId().slice(0, 9)).not.toBe(first.slice(0, 9));
+});
+
+test("createZeroIdGenerator should apply configured defaults", () => {
+  const generator = createZeroIdGenerator({
+    prefix: "user_",
+    randomLength: 10,
+    checksum: true,
+  });
+
+  const id = generator.next();
+
+  expect(id.startsWith("user_")).toBe(true);
+  expect(id).toHaveLength(5 + 9 + 10 + 2);
+  expect(isValidZeroId(id, "user_", { checksum: true })).toBe(true);
+  expect(generator.decode(id)).not.toBeNull();
+  expect(generator.next({ prefix: "admin_" }).startsWith("admin_")).toBe(true);
+});
+
+test("createZeroIdGenerator should use the provided random source", () => {
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    random: (bytes) => bytes.fill(0),
+  });
+
+  expect(generator.next().slice(9)).toBe("0000000");
+  expect(generator.at(1700000000000, { randomLength: 3 }).slice(9)).toBe("000");
+});
+
+test("createZeroIdGenerator reset should restart the counter", () => {
+  const generator = createZeroIdGenerator({ clock: () => 1700000000000 });
+
+  const first = generator.next();
+  generator.next();
+  generator.reset();
+
+  expect(generator.next().slice(0, 9)).toBe(first.slice(0, 9));
+});
+
+test("seeded generators should produce reproducible sequences", () => {
+  const seeded = (seed: number | string) => {
+    let now = 1700000000000;
+    return createZeroIdGenerator({ clock: () => now++, seed });
+  };
+  const generator = seeded("fixtures");
+  const ids = generator.batch(5);
+
+  expect(seeded("fixtures").batch(5)).toEqual(ids);
+  expect(seeded("other").batch(5)).not.toEqual(ids);
+  expect(new Set(ids).size).toBe(5);
+  expect(ids.every((id) => isValidZeroId(id))).toBe(true);
+
+  const fixed = createZeroIdGenerator({ clock: () => 1700000000000, seed: 42 });
+  const first = fixed.next();
+  fixed.reset();
+  expect(fixed.next()).toBe(first);
+});
+
+test("seeded generators should refuse to run in production", () => {
+  vi.stubEnv("NODE_ENV", "production");
+
+  try {
+    expect(() => createZeroIdGenerator({ seed: 1 })).toThrow(
+      "not cryptographically secure",
+    );
+    expect(() =>
+      createZeroIdGenerator({ seed: 1, allowInProduction: true }),
+    ).not.toThrow();
+    expect(() => createZeroIdGenerator()).not.toThrow();
+  } finally {
+    vi.unstubAllEnvs();
+  }
+
+  expect(() =>
+    createZeroIdGenerator({ seed: 1, random: (bytes) => bytes }),
+  ).toThrow("either a seed or a random source");
+});
+
+test("monotonic generator should keep IDs strictly increasing past 1000 per ms", () => {
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    monotonic: true,
+  });
+
+  const ids = generator.batch(2500);
+
+  for (let i = 1; i < ids.length; i++) {
+    expect(ids[i]! > ids[i - 1]!).toBe(true);
+  }
+  expect(generator.decode(ids[999]!)!.timestamp).toBe(1700000000000);
+  expect(generator.decode(ids[1000]!)!.timestamp).toBe(1700000000001);
+  expect(generator.decode(ids[2499]!)!.timestamp).toBe(1700000000002);
+});
+
+test("monotonic generator should continue borrowed time until the clock catches up", () => {
+  let now = 1700000000000;
+  const generator = createZeroIdGenerator({
+    clock: () => now,
+    monotonic: true,
+  });
+
+  generator.batch(1001);
+  now = 1700000000001;
+  const borrowed = generator.next();
+  now = 1700000000002;
+  const caughtUp = generator.next();
+
+  expect(generator.decode(borrowed)!.timestamp).toBe(1700000000001);
+  expect(caughtUp.slice(0, 9)).toBe(generator.at(1700000000002).slice(0, 9));
+  expect(caughtUp > borrowed).toBe(true);
+});
+
+test("monotonic generator should throw when the counter is exhausted", () => {
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    monotonic: true,
+    onCounterExhausted: "throw",
+  });
+
+  generator.batch(1000);
+
+  expect(() => generator.next()).toThrow(CounterExhaustedError);
+});
+
+test("monotonic generator should wait for the next millisecond", () => {
+  let calls = 0;
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000 + Math.floor(calls++ / 1200),
+    monotonic: true,
+    onCounterExhausted: "wait",
+  });
+
+  const ids = generator.batch(1001);
+
+  expect(generator.decode(ids[1000]!)!.timestamp).toBe(1700000000001);
+  expect(calls).toBeGreaterThan(1200);
+});
+
+test("generator should keep the last timestamp when the clock moves backwards", () => {
+  let now = 1700000000000;
+  const events: { previous: number; current: number }[] = [];
+  const generator = createZeroIdGenerator({
+    clock: () => now,
+    reportClockRegression: (event) => events.push(event),
+  });
+
+  const before = generator.next();
+  now = 1699999995000;
+  const during = generator.batch(3);
+  now = 1700000000001;
+  const after = generator.next();
+
+  expect([before, ...during, after]).toEqual(
+    [before, ...during, after].sort(compareZeroIds),
+  );
+  expect(generator.decode(during[2]!)!.timestamp).toBe(1700000000000);
+  expect(generator.decode(after)!.timestamp).toBe(1700000000001);
+  expect(events).toEqual([{ previous: 1700000000000, current: 1699999995000 }]);
+});
+
+test("keep should not wrap the counter while the clock is behind", () => {
+  let now = 1700000000000;
+  const generator = createZeroIdGenerator({ clock: () => now });
+
+  const before = generator.next();
+  now = 1699999995000;
+  const during = generator.batch(1500);
+
+  expect([before, ...during]).toEqual([before, ...during].sort(compareZeroIds));
+  expect(generator.decode(during[1499]!)!.timestamp).toBe(1700000000001);
+});
+
+test("generator should throw ClockRegressionError when configured", () => {
+  let now = 1700000000000;
+  const generator = createZeroIdGenerator({
+    clock: () => now,
+    onClockRegression: "throw",
+  });
+
+  generator.next();
+  now = 1699999999000;
+
+  expect(() => generator.next()).toThrow(ClockRegressionError);
+
+  now = 1700000000005;
+  expect(generator.decode(generator.next())!.timestamp).toBe(1700000000005);
+});
+
+test("generator should wait for the clock to catch up when configured", () => {
+  const readings = [1700000000000, 1699999999000, 1699999999500, 1700000000002];
+  const generator = createZeroIdGenerator({
+    clock: () => readings.shift() ?? 1700000000002,
+    onClockRegression: "wait",
+  });
+
+  generator.next();
+  const id = generator.next();
+
+  expect(generator.decode(id)!.timestamp).toBe(1700000000002);
+  expect(readings).toHaveLength(0);
+});
+
+test("borrowed monotonic time should not count as clock regression", () => {
+  const events: unknown[] = [];
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    monotonic: true,
+    reportClockRegression: (event) => events.push(event),
+  });
+
+  generator.batch(1500);
+
+  expect(events).toHaveLength(0);
+});
+
+test("generator should encode its nodeId after the timestamp", () => {
+  const generator = createZeroIdGenerator({
+    nodeId: 1234,
+    clock: () => 1700000000000,
+  });
+
+  const id = generator.next({ metadata: { foo: "bar" } });
+  const decoded = generator.decode<{ foo: string }>(id);
+
+  expect(id).toHaveLength(9 + 2 + 3 + 26 + 7);
+  expect(decoded!.nodeId).toBe(1234);
+  expect(decoded!.timestamp).toBe(1700000000000);
+  expect(decoded!.metadata).toEqual({ foo: "bar" });
+  expect(decodeZeroId(id, "", { nodeIdLength: 2 })!.nodeId).toBe(1234);
+  expect(decodeZeroId(zeroId())!.nodeId).toBeUndefined();
+});
+
+test("generators with different nodeIds should never collide", () => {
+  const clock = () => 1700000000000;
+  const random = (bytes: Uint8Array) => bytes.fill(0);
+  const a = createZeroIdGenerator({ nodeId: 1, clock, random });
+  const b = createZeroIdGenerator({ nodeId: 2, clock, random });
+
+  const ids = [...a.batch(500), ...b.batch(500)];
+
+  expect(new Set(ids).size).toBe(1000);
+});
+
+test("generator should support a custom nodeId length with checksum", () => {
+  const generator = createZeroIdGenerator({
+    prefix: "evt_",
+    nodeId: 200000,
+    nodeIdLength: 4,
+    checksum: true,
+  });
+
+  const id = generator.next();
+
+  expect(id).toHaveLength(4 + 9 + 4 + 7 + 2);
+  expect(generator.decode(id)!.nodeId).toBe(200000);
+  expect(isValidZeroId(id, "evt_", { checksum: true, nodeIdLength: 4 })).toBe(
+    true,
+  );
+});
+
+test("generator should reject nodeIds that don't fit", () => {
+  expect(() => createZeroIdGenerator({ nodeId: 3844 })).toThrow(RangeError);
+  expect(() => createZeroIdGenerator({ nodeId: -1 })).toThrow(RangeError);
+  expect(() => createZeroIdGenerator({ nodeId: 1.5 })).toThrow(RangeError);
+  expect(() =>
+    createZeroIdGenerator({ nodeId: 3844, nodeIdLength: 3 }),
+  ).not.toThrow();
+});
+
+test("versioned IDs should start with the format marker", () => {
+  const id = zeroId({ versioned: true });
+
+  expect(id[0]).toBe("1");
+  expect(id).toHaveLength(1 + 9 + 1 + 7);
+
+  const decoded = decodeZeroId(id);
+  expect(decoded).not.toBeNull();
+  expect(decoded!.version).toBe(constants.FORMAT_VERSION);
+  expect(decoded!.metadata).toBeUndefined();
+  expect(decodeZeroId(zeroId())!.version).toBeUndefined();
+});
+
+test("versioned IDs should decode exactly from their flags", () => {
+  const generator = createZeroIdGenerator({
+    prefix: "order_",
+    versioned: true,
+    nodeId: 7,
+    checksum: true,
+    clock: () => 1700000000000,
+  });
+
+  const id = generator.next({ metadata: { amount: 99.99 } });
+  const decoded = decodeZeroId<{ amount: number }>(id, "order_");
+
+  expect(decoded!.timestamp).toBe(1700000000000);
+  expect(decoded!.nodeId).toBe(7);
+  expect(decoded!.metadata).toEqual({ amount: 99.99 });
+  expect(extractTimestamp(id, "order_")).toBe(1700000000000);
+  expect(isValidZeroId(id, "order_", { checksum: true })).toBe(true);
+});
+
+test("versioned IDs should not guess metadata from random data", () => {
+  const generator = createZeroIdGenerator({
+    versioned: true,
+    random: (bytes) => bytes.fill(0),
+  });
+
+  const id = generator.next({ randomLength: 12 });
+
+  expect(decodeZeroId(id)!.metadata).toBeUndefined();
+});
+
+test("versioned IDs should verify their checksum without options", () => {
+  const id = zeroId({ versioned: true, checksum: true });
+  const corrupted =
+    id.slice(0, 12) + (id[12] === "A" ? "B" : "A") + id.slice(13);
+
+  expect(isValidZeroId(id)).toBe(true);
+  expect(decodeZeroId(corrupted)).toBeNull();
+  expect(
+    isValidZeroId(zeroId({ versioned: true }), "", { checksum: true }),
+  ).toBe(false);
+});
+
+test("versioned IDs should reject truncated metadata", () => {
+  const id = zeroIdAt(1700000000000, {
+    versioned: true,
+    metadata: { foo: "bar" },
+    randomLength: 0,
+  });
+
+  expect(decodeZeroId(id)).toBeNull();
+  expect(decodeZeroId(id.slice(0, -4))).toBeNull();
+});
+
+test("versioned and unversioned IDs should compare by timestamp", () => {
+  const older = zeroIdAt(1700000000000);
+  const newer = zeroIdAt(1700000000001, { versioned: true });
+
+  expect(compareZeroIds(older, newer)).toBe(-1);
+  expect(compareZeroIds(newer, older)).toBe(1);
+});
+
+test("parseZeroId should return the decoded value on success", () => {
+  const id = zeroIdAt(1700000000000, { prefix: "user_" });
+  const result = parseZeroId(id, "user_");
+
+  expect(result.ok).toBe(true);
+  if (result.ok) {
+    expect(result.value.timestamp).toBe(1700000000000);
+  }
+});
+
+test("parseZeroId should report why an ID is invalid", () => {
+  const id = zeroIdAt(1700000000000, { prefix: "user_", checksum: true });
+  const corrupted = id.slice(0, 8) + (id[8] === "A" ? "B" : "A") + id.slice(9);
+
+  const cases: [ReturnType<typeof parseZeroId>, string, number][] = [
+    [parseZeroId(id, "usr_"), "PREFIX_MISMATCH", 2],
+    [parseZeroId("user_abc-def", "user_"), "BAD_CHARSET", 8],
+    [parseZeroId("user_abc", "user_"), "TOO_SHORT", 8],
+    [
+      parseZeroId(corrupted, "user_", { checksum: true }),
+      "CHECKSUM_MISMATCH",
+      id.length - 2,
+    ],
+    [parseZeroId("0000000000000000"), "TIMESTAMP_OUT_OF_RANGE", 0],
+  ];
+
+  for (const [result, code, position] of cases) {
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(ZeroIdParseError);
+      expect(result.error.code).toBe(code);
+      expect(result.error.position).toBe(position);
+    }
+  }
+});
+
+test("parseZeroId should report corrupt metadata in versioned IDs", () => {
+  const id = zeroIdAt(1700000000000, {
+    prefix: "order_",
+    versioned: true,
+    metadata: { foo: "bar" },
+  });
+  const corrupted = id.slice(0, 20) + "zz" + id.slice(22);
+  const result = parseZeroId(corrupted, "order_");
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error.code).toBe("METADATA_CORRUPT");
+    expect(result.error.position).toBe(6 + 11);
+  }
+});
+
+test("defineIdTypes should create typed generators per prefix", () => {
+  const ids = defineIdTypes({ user: "user_", order: "order_" });
+
+  const userId = ids.user.next();
+  const orderIds = ids.order.batch(3);
+
+  expect(userId.startsWith("user_")).toBe(true);
+  expect(orderIds.every((id) => id.startsWith("order_"))).toBe(true);
+  expect(ids.user.prefix).toBe("user_");
+  expect(ids.user.decode(userId)).not.toBeNull();
+  expect(ids.order.compare(orderIds[0]!, orderIds[2]!)).toBeLessThanOrEqual(0);
+
+  expectTypeOf(userId).toEqualTypeOf<`user_${string}`>();
+  expectTypeOf(orderIds).toEqualTypeOf<`order_${string}`[]>();
+  // @ts-expect-error a user ID is not an order ID
+  ids.order.decode(userId);
+});
+
+test("defineIdTypes compare should use the configured alphabet", () => {
+  const ids = defineIdTypes({ ord: "ord_" }, { alphabet: "crockford" });
+  const older = ids.ord.at(2251799813000);
+  const newer = ids.ord.at(2251799814000);
+  const later = ids.ord.at(3400000000000);
+
+  expect([older[4], newer[4], later[4]]).toEqual(["1", "2", "3"]);
+  expect(ids.ord.compare(older, newer)).toBe(-1);
+  expect(ids.ord.compare(newer, later)).toBe(-1);
+  expect(ids.ord.compare(later, older)).toBe(1);
+});
+
+test("defineIdTypes validators should narrow to the branded type", () => {
+  const ids = defineIdTypes(
+    { user: "user_", order: "order_" },
+    { checksum: true },
+  );
+  const value: string = ids.user.next();
+
+  expect(ids.user.is(value)).toBe(true);
+  expect(ids.order.is(value)).toBe(false);
+  expect(ids.user.is(zeroId({ prefix: "user_" }))).toBe(false);
+
+  const result = ids.order.parse(value);
+  expect(result.ok).toBe(false);
+  if (!result.ok) expect(result.error.code).toBe("PREFIX_MISMATCH");
+});
+
+test("identifyIdType should find the entity type of an ID", () => {
+  const ids = defineIdTypes({
+    user: "user_",
+    admin: "user_admin_",
+    order: "order_",
+  });
+
+  expect(identifyIdType(ids.user.next(), ids)).toBe("user");
+  expect(identifyIdType(ids.admin.next(), ids)).toBe("admin");
+  expect(identifyIdType(ids.order.next(), ids)).toBe("order");
+  expect(identifyIdType(zeroId({ prefix: "team_" }), ids)).toBeNull();
+  expect(extractPrefix(ids.admin.next(), ids)).toBe("user_admin_");
+});
+
+const orderSchema = defineMetadataSchema({
+  amount: { type: "number" },
+  currency: { type: "string" },
+  quantity: { type: "integer", optional: true },
+  gift: { type: "boolean", optional: true },
+});
+
+test("defineMetadataSchema should infer the metadata type", () => {
+  expectTypeOf(orderSchema.validate).returns.toMatchTypeOf<
+    | {
+        ok: true;
+        value: {
+          amount: number;
+          currency: string;
+          quantity?: number;
+          gift?: boolean;
+        };
+      }
+    | { ok: false; error: MetadataValidationError }
+  >();
+});
+
+test("generator should accept metadata matching its schema", () => {
+  const generator = createZeroIdGenerator({ metadataSchema: orderSchema });
+
+  const id = generator.next({ metadata: { amount: 99.99, currency: "USD" } });
+  const decoded = generator.decode(id);
+
+  expect(decoded!.metadata).toEqual({ amount: 99.99, currency: "USD" });
+  expectTypeOf(decoded!.metadata).toEqualTypeOf<
+    | { amount: number; currency: string; quantity?: number; gift?: boolean }
+    | undefined
+  >();
+});
+
+test("generator should reject metadata that doesn't match its schema", () => {
+  const generator = createZeroIdGenerator({ metadataSchema: orderSchema });
+
+  expect(() =>
+    generator.next({
+      // @ts-expect-error amount is required
+      metadata: { currency: "USD" },
+    }),
+  ).toThrow('Missing required metadata field "amount"');
+  expect(() =>
+    generator.next({
+      // @ts-expect-error amount must be a number
+      metadata: { amount: "1", currency: "USD" },
+    }),
+  ).toThrow('Metadata field "amount" must be a number');
+  expect(() =>
+    generator.next({ metadata: { amount: 1, currency: "USD", quantity: 1.5 } }),
+  ).toThrow(MetadataValidationError);
+  expect(() =>
+    generator.next({
+      metadata: { amount: 1, currency: "USD", note: "hi" },
+    }),
+  ).toThrow('Unknown metadata field "note"');
+  expect(() => generator.next()).toThrow(MetadataValidationError);
+});
+
+test("generator should enforce the schema's max encoded length", () => {
+  const schema = defineMetadataSchema(
+    { note: { type: "string" } },
+    { maxLength: 40 },
+  );
+  const generator = createZeroIdGenerator({ metadataSchema: schema });
+
+  expect(() => generator.next({ metadata: { note: "short" } })).not.toThrow();
+  expect(() =>
+    generator.next({ metadata: { note: "this note is far too long" } }),
+  ).toThrow("more than the maximum of 40");
+});
+
+test("decoding with a schema should report invalid metadata", () => {
+  const id = zeroId({ metadata: { amount: "99.99", currency: "USD" } });
+  const result = parseZeroId(id, "", { metadataSchema: orderSchema });
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error.code).toBe("METADATA_INVALID");
+    expect(result.error.position).toBe(9);
+    expect(result.error.message).toContain('"amount" must be a number');
+  }
+  expect(decodeZeroId(id, "", { metadataSchema: orderSchema })).toBeNull();
+  expect(
+    decodeZeroId(zeroId({ versioned: true }), "", {
+      metadataSchema: orderSchema,
+    }),
+  ).toBeNull();
+});
+
+test("binary metadata should round-trip all JSON values", () => {
+  const metadata = {
+    nested: { deep: { value: true } },
+    array: [1, -2, 3.5, "x", null, [false]],
+    string: "hello wörld 👋",
+    empty: "",
+    zero: 0,
+    negative: -1234567890123,
+    maxSafe: Number.MAX_SAFE_INTEGER,
+    price: 99.99,
+    negativePrice: -0.05,
+    pi: Math.PI,
+    tiny: 1e-20,
+    sum: 0.1 + 0.2,
+    boolean: false,
+    nullValue: null,
+  };
+
+  const id = zeroId({ metadata, metadataEncoding: "binary" });
+
+  expect(id).toMatch(/^[0-9A-Za-z]+$/);
+  expect(decodeZeroId<typeof metadata>(id)!.metadata).toEqual(metadata);
+});
+
+test("binary metadata should be smaller than JSON metadata", () => {
+  const metadata = { amount: 99.99, currency: "USD" };
+
+  const json = zeroIdAt(1700000000000, { metadata });
+  const binary = zeroIdAt(1700000000000, {
+    metadata,
+    metadataEncoding: "binary",
+  });
+
+  expect(json).toHaveLength(16 + 69);
+  expect(binary).toHaveLength(16 + 41);
+  expect(decodeZeroId(binary)!.metadata).toEqual(metadata);
+  expect(decodeZeroId(json)!.metadata).toEqual(metadata);
+});
+
+test("binary metadata should work with generators, checksums and versions", () => {
+  const generator = createZeroIdGenerator({
+    prefix: "order_",
+    metadataEncoding: "binary",
+    metadataSchema: orderSchema,
+    checksum: true,
+    versioned: true,
+  });
+
+  const id = generator.next({ metadata: { amount: 5, currency: "EUR" } });
+
+  expect(generator.decode(id)!.metadata).toEqual({
+    amount: 5,
+    currency: "EUR",
+  });
+});
+
+test("corrupt binary metadata should not decode", () => {
+  const id = zeroIdAt(1700000000000, {
+    versioned: true,
+    metadata: { foo: "bar" },
+    metadataEncoding: "binary",
+  });
+  const corrupted = id.slice(0, 14) + "zz" + id.slice(16);
+  const result = parseZeroId(corrupted);
+
+  expect(result.ok).toBe(false);
+  if (!result.ok) expect(result.error.code).toBe("METADATA_CORRUPT");
+});
+
+test("encrypted metadata should only decode with the key", async () => {
+  const key = await generateZeroIdKey();
+  const metadata = { amount: 99.99, currency: "USD" };
+  const id = await encryptedZeroId({ prefix: "order_", metadata, key });
+
+  expect(id).toMatch(/^order_[0-9A-Za-z]+$/);
+  expect(id).not.toContain(zeroId({ metadata }).slice(9, 30));
+
+  const decoded = await decryptZeroId<typeof metadata>(id, key, "order_");
+  expect(decoded!.metadata).toEqual(metadata);
+  expect(extractTimestamp(id, "order_")).toBe(decoded!.timestamp);
+
+  const result = parseZeroId(id, "order_");
+  expect(result.ok).toBe(false);
+  if (!result.ok) expect(result.error.code).toBe("ENCRYPTED");
+
+  const otherKey = await generateZeroIdKey();
+  expect(await decryptZeroId(id, otherKey, "order_")).toBeNull();
+});
+
+test("encrypted IDs should optionally hide the timestamp", async () => {
+  const key = await importZeroIdKey(new Uint8Array(32).fill(7));
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    checksum: true,
+    nodeId: 3,
+    encryption: { key, encryptTimestamp: true },
+  });
+
+  const id = await generator.nextEncrypted();
+  const decoded = await generator.decrypt(id);
+
+  expect(decoded!.timestamp).toBe(1700000000000);
+  expect(decoded!.nodeId).toBe(3);
+  expect(decoded!.metadata).toBeUndefined();
+  expect(extractTimestamp(id)).toBeNull();
+  expect(decodeZeroId(id, "", { checksum: true })).toBeNull();
+});
+
+test("encrypted IDs should be tamper-evident", async () => {
+  const key = await generateZeroIdKey();
+  const id = await encryptedZeroId({
+    key,
+    metadata: { role: "admin" },
+    randomLength: 10,
+  });
+
+  const tamperedRandom = id.slice(0, -1) + (id.endsWith("A") ? "B" : "A");
+  const tamperedTimestamp =
+    id.slice(0, 5) + (id[5] === "A" ? "B" : "A") + id.slice(6);
+
+  expect(await decryptZeroId(id, key)).not.toBeNull();
+  expect(await decryptZeroId(tamperedRandom, key)).toBeNull();
+  expect(await decryptZeroId(tamperedTimestamp, key)).toBeNull();
+});
+
+test("decryptZeroId should decode IDs that aren't encrypted", async () => {
+  const key = await generateZeroIdKey();
+  const id = zeroIdAt(1700000000000, { prefix: "user_" });
+
+  expect((await decryptZeroId(id, key, "user_"))!.timestamp).toBe(
+    1700000000000,
+  );
+  await expect(createZeroIdGenerator().nextEncrypted()).rejects.toThrow(
+    "requires a key",
+  );
+});
+
+test("signed IDs should verify with the signing key", async () => {
+  const key = await importZeroIdSigningKey("a", new Uint8Array(32).fill(1));
+  const id = zeroId({ prefix: "user_" });
+  const signed = await signZeroId(id, key, "user_");
+
+  expect(signed).toHaveLength(id.length + 18);
+  expect(signed.startsWith(id)).toBe(true);
+  expect(await verifySignedZeroId(signed, key, "user_")).toBe(id);
+  expect(decodeZeroId(signed, "user_")).not.toBeNull();
+});
+
+test("signed IDs should reject forgeries", async () => {
+  const key = await importZeroIdSigningKey("a", new Uint8Array(32).fill(1));
+  const attacker = await importZeroIdSigningKey(
+    "a",
+    new Uint8Array(32).fill(2),
+  );
+  const signed = await signZeroId(zeroId(), key);
+
+  const tampered = (index: number) =>
+    signed.slice(0, index) +
+    (signed[index] === "A" ? "B" : "A") +
+    signed.slice(index + 1);
+
+  expect(await verifySignedZeroId(tampered(3), key)).toBeNull();
+  expect(await verifySignedZeroId(tampered(signed.length - 1), key)).toBeNull();
+  expect(
+    await verifySignedZeroId(await signZeroId(zeroId(), attacker), key),
+  ).toBeNull();
+  expect(await verifySignedZeroId(zeroId(), key)).toBeNull();
+  expect(await verifySignedZeroId("short", key)).toBeNull();
+});
+
+test("signed IDs should support key rotation", async () => {
+  const oldKey = await importZeroIdSigningKey("1", new Uint8Array(32).fill(1));
+  const newKey = await importZeroIdSigningKey("2", new Uint8Array(32).fill(2));
+  const generator = createZeroIdGenerator({
+    signing: { key: newKey, verificationKeys: [newKey, oldKey] },
+  });
+
+  const oldId = await signZeroId(zeroId(), oldKey);
+  const newId = await generator.nextSigned();
+
+  expect(await generator.verify(oldId)).not.toBeNull();
+  expect(await generator.verify(newId)).not.toBeNull();
+  expect(await verifySignedZeroId(oldId, [newKey])).toBeNull();
+  await expect(
+    importZeroIdSigningKey("ab", new Uint8Array(32)),
+  ).rejects.toThrow(RangeError);
+});
+
+test("signed IDs should keep their checksum valid", async () => {
+  const key = await importZeroIdSigningKey("k", new Uint8Array(32).fill(3));
+  const generator = createZeroIdGenerator({
+    prefix: "order_",
+    checksum: true,
+    signing: { key },
+  });
+
+  const signed = await generator.nextSigned({ metadata: { total: 5 } });
+  const unsigned = await generator.verify(signed);
+
+  expect(isValidZeroId(signed, "order_", { checksum: true })).toBe(true);
+  expect(isValidZeroId(unsigned!, "order_", { checksum: true })).toBe(true);
+  expect(
+    decodeZeroId(unsigned!, "order_", { checksum: true })!.metadata,
+  ).toEqual({
+    total: 5,
+  });
+
+  const versioned = await signZeroId(
+    zeroId({ versioned: true, checksum: true }),
+    key,
+  );
+  expect(isValidZeroId(versioned)).toBe(true);
+  expect(await verifySignedZeroId(versioned, key)).not.toBeNull();
+});
+
+test("mod3833 checksum should catch every substitution and adjacent transposition", () => {
+  const id = zeroIdAt(1700000000000, { checksum: "mod3833" });
+  const chars = constants.BASE62_CHARS;
+
+  expect(isValidZeroId(id, "", { checksum: "mod3833" })).toBe(true);
+
+  for (let i = 0; i < id.length; i++) {
+    for (const char of chars) {
+      if (char === id[i]) continue;
+      const substituted = id.slice(0, i) + char + id.slice(i + 1);
+      expect(isValidZeroId(substituted, "", { checksum: "mod3833" })).toBe(
+        false,
+      );
+    }
+  }
+
+  for (let i = 0; i < id.length - 1; i++) {
+    if (id[i] === id[i + 1]) continue;
+    const swapped = id.slice(0, i) + id[i + 1] + id[i] + id.slice(i + 2);
+    expect(isValidZeroId(swapped, "", { checksum: "mod3833" })).toBe(false);
+  }
+});
+
+test("decodeZeroId should accept legacy and mod3833 checksums", () => {
+  const legacy = zeroId({ checksum: "legacy" });
+  const mod3833 = zeroId({ checksum: "mod3833" });
+
+  expect(legacy.length).toBe(zeroId({ checksum: true }).length);
+  expect(decodeZeroId(legacy, "", { checksum: true })).not.toBeNull();
+  expect(decodeZeroId(mod3833, "", { checksum: true })).not.toBeNull();
+  expect(decodeZeroId(mod3833, "", { checksum: "mod3833" })).not.toBeNull();
+});
+
+test("only checksum mod3833 should guarantee catching substitutions", () => {
+  const generator = createZeroIdGenerator({
+    clock: () => 1700000000000,
+    seed: "typos",
+    checksum: "mod3833",
+  });
+  const chars =
+    "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+  let acceptedByEither = 0;
+
+  for (const id of generator.batch(20)) {
+    for (let i = 0; i < id.length; i++) {
+      for (const char of chars) {
+        if (char === id[i]) continue;
+        const typo = id.slice(0, i) + char + id.slice(i + 1);
+
+        expect(isValidZeroId(typo, "", { checksum: "mod3833" })).toBe(false);
+        if (isValidZeroId(typo, "", { checksum: true })) acceptedByEither++;
+      }
+    }
+  }
+
+  expect(acceptedByEither).toBeGreaterThan(0);
+});
+
+test("versioned IDs should record the checksum scheme in their flags", () => {
+  const id = zeroIdAt(1700000000000, { versioned: true, checksum: "mod3833" });
+
+  expect(isValidZeroId(id)).toBe(true);
+  expect(isValidZeroId(id, "", { checksum: true })).toBe(true);
+  expect(isValidZeroId(id, "", { checksum: "mod3833" })).toBe(true);
+  expect(isValidZeroId(id, "", { checksum: "legacy" })).toBe(false);
+  expect(isValidZeroId(id.slice(0, 5) + "x" + id.slice(6))).toBe(false);
+
+  const both = id.slice(0, 10) + "Z" + id.slice(11);
+  expect(parseZeroId(both)).toMatchObject({
+    ok: false,
+    error: { code: "INVALID_FLAGS" },
+  });
+});
+
+test("crockford IDs should use an unambiguous uppercase alphabet", () => {
+  const id = zeroIdAt(1700000000000, { alphabet: "crockford" });
+
+  expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{18}$/);
+  expect(decodeZeroId(id, "", { alphabet: "crockford" })!.timestamp).toBe(
+    1700000000000,
+  );
+});
+
+test("time utilities should read crockford timestamps", () => {
+  const options = { alphabet: "crockford" } as const;
+  const old = zeroIdAt(1600000000000, { prefix: "ord_", ...options });
+  const id = zeroIdAt(1700000000000, { prefix: "ord_", ...options });
+
+  expect(extractTimestamp(id, "ord_", options)).toBe(1700000000000);
+  expect(extractTimestamp(id.toLowerCase(), "ord_", options)).toBe(
+    1700000000000,
+  );
+  expect(extractTimestamp(id, "ord_")).not.toBe(1700000000000);
+  expect(isBefore(old, 1650000000000, "ord_", options)).toBe(true);
+  expect(isAfter(id, 1650000000000, "ord_", options)).toBe(true);
+  expect(getAge(id, "ord_", options)).toBeGreaterThan(
+    Date.now() - 1700000000000 - 1000,
+  );
+  expect(getTimestampRange([id, old], "ord_", options)).toMatchObject({
+    oldest: 1600000000000,
+    newest: 1700000000000,
+  });
+});
+
+test("crockford decoding should normalize case, aliases and hyphens", () => {
+  const id = zeroId({ prefix: "ord_", alphabet: "crockford", checksum: true });
+  const typed = formatZeroId(id, "ord_")
+    .toLowerCase()
+    .replace(/0/g, "o")
+    .replace(/1/g, "l");
+
+  expect(formatZeroId(id, "ord_")).toMatch(/^ord_(\w{4}-)+\w{1,4}$/);
+  expect(isValidZeroId(typed, "ord_", { alphabet: "crockford" })).toBe(true);
+  expect(normalizeZeroId(typed, "ord_", { alphabet: "crockford" })).toBe(id);
+  expect(
+    parseZeroId("ord_1U", "ord_", { alphabet: "crockford" }),
+  ).toMatchObject({ ok: false, error: { code: "BAD_CHARSET", position: 5 } });
+});
+
+test("crockford IDs should sort by time", () => {
+  const generator = createZeroIdGenerator({
+    alphabet: "crockford",
+    checksum: "mod3833",
+    nodeId: 7,
+  });
+  const ids = [
+    generator.at(1700000000000),
+    generator.at(1600000000000),
+    generator.at(1650000000000),
+  ];
+
+  expect([...ids].sort()).toEqual([ids[1], ids[2], ids[0]]);
+  expect(generator.decode(ids[0]!)).toMatchObject({ nodeId: 7 });
+  expect(() => generator.next({ metadata: { a: 1 } })).toThrow(
+    "Metadata is not supported with the crockford alphabet",
+  );
+});
+
+test("custom alphabets should generate IDs that sort and decode", () => {
+  const base64url = defineAlphabet(
+    "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz",
+  );
+  const generator = createZeroIdGenerator({
+    prefix: "doc_",
+    alphabet: base64url,
+    checksum: "mod3833",
+  });
+  const timestamps = [
+    1600000000000, 1700000000000, 1650000000000, 946684800000,
+  ];
+  const ids = timestamps.map((timestamp) => generator.at(timestamp));
+
+  for (const id of ids) {
+    expect(id.slice(4)).toMatch(/^[-\w]+$/);
+    expect(generator.decode(id)).not.toBeNull();
+  }
+  expect([...ids].sort().map((id) => generator.decode(id)!.timestamp)).toEqual(
+    [...timestamps].sort((a, b) => a - b),
+  );
+  expect(
+    isValidZeroId(ids[0]!, "doc_", { alphabet: base64url, checksum: true }),
+  ).toBe(true);
+});
+
+test("custom alphabets should reject characters outside the alphabet", () => {
+  const base36 = defineAlphabet("0123456789abcdefghijklmnopqrstuvwxyz");
+  const id = zeroId({ alphabet: base36 });
+
+  expect(id).toMatch(/^[0-9a-z]+$/);
+  expect(decodeZeroId(id, "", { alphabet: base36 })).not.toBeNull();
+  expect(parseZeroId(id.toUpperCase(), "", { alphabet: base36 })).toMatchObject(
+    { ok: false, error: { code: "BAD_CHARSET" } },
+  );
+});
+
+test("time utilities should read custom alphabet timestamps", () => {
+  const base36 = defineAlphabet("0123456789abcdefghijklmnopqrstuvwxyz");
+  const base64url = defineAlphabet(
+    "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz",
+  );
+
+  for (const alphabet of [base36, base64url]) {
+    const ids = [1600000000000, 1700000000000].map((timestamp) =>
+      zeroIdAt(timestamp, { prefix: "doc_", alphabet }),
+    );
+
+    expect(extractTimestamp(ids[1]!, "doc_", { alphabet })).toBe(1700000000000);
+    expect(isBefore(ids[0]!, 1650000000000, "doc_", { alphabet })).toBe(true);
+    expect(isAfter(ids[1]!, 1650000000000, "doc_", { alphabet })).toBe(true);
+    expect(getTimestampRange(ids, "doc_", { alphabet })).toMatchObject({
+      oldest: 1600000000000,
+      newest: 1700000000000,
+    });
+  }
+
+  expect(
+    extractTimestamp(zeroId({ alphabet: base36 }).toUpperCase(), "", {
+      alphabet: base36,
+    }),
+  ).toBeNull();
+});
+
+test("defineAlphabet should require ASCII order", () => {
+  expect(() => defineAlphabet("bcdfghjklmnpqrstvwxz0123456789")).toThrow(
+    RangeError,
+  );
+  expect(() => defineAlphabet("0123456789aa")).toThrow(RangeError);
+  expect(() => defineAlphabet("0 1")).toThrow(RangeError);
+  expect(() => defineAlphabet("0")).toThrow(RangeError);
+  expect(defineAlphabet("0123456789bcdfghjklmnpqrstvwxz").chars).toHaveLength(
+    30,
+  );
+});
+
+test("toBuffer should store the timestamp, counter and random part", () => {
+  const id = zeroIdAt(1700000000000);
+  const buffer = toBuffer(id);
+  const view = new DataView(buffer.buffer);
+
+  expect(view.getUint16(0) * 2 ** 32 + view.getUint32(2)).toBe(1700000000000);
+  expect(view.getUint16(6)).toBe(0);
+  expect(fromBuffer(buffer)).toBe(id);
+  expect(toBuffer(fromBuffer(buffer))).toEqual(buffer);
+});
+
+test("toBuffer should preserve sort order under byte comparison", () => {
+  const ids = [
+    ...batch(20),
+    zeroIdAt(946684800000),
+    zeroIdAt(1700000000000),
+    zeroIdAt(4000000000000),
+  ];
+  const memcmp = (a: Uint8Array, b: Uint8Array) => {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i]! - b[i]!;
+    }
+    return 0;
+  };
+
+  const byBytes = ids
+    .map((id) => toBuffer(id))
+    .sort(memcmp)
+    .map((buffer) => fromBuffer(buffer));
+
+  expect(byBytes).toEqual([...ids].sort());
+});
+
+test("toBuffer and fromBuffer should reject what they cannot represent", () => {
+  expect(() => toBuffer(zeroId({ checksum: true }))).toThrow(RangeError);
+  expect(() => toBuffer(zeroId({ prefix: "a_" }), "b_")).toThrow(RangeError);
+  expect(() => toBuffer("0000000000000000")).toThrow("Invalid zeroId format");
+  expect(() => fromBuffer(new Uint8Array(15))).toThrow(RangeError);
+  expect(() => fromBuffer(new Uint8Array(16))).toThrow("Invalid zeroId buffer");
+});
+
+test("toUUIDv7 should produce an RFC 9562 version 7 UUID", () => {
+  const id = zeroIdAt(1700000000000);
+  const uuid = toUUIDv7(id);
+
+  expect(uuid).toMatch(
+    /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+  );
+  expect(parseInt(uuid.replace(/-/g, "").slice(0, 12), 16)).toBe(1700000000000);
+});
+
+test("toUUIDv7 and fromUUIDv7 should round-trip and keep sort order", () => {
+  const ids = [
+    ...batch(10, { prefix: "user_" }),
+    zeroIdAt(946684800000, { prefix: "user_" }),
+  ];
+  const uuids = ids.map((id) => toUUIDv7(id, "user_"));
+
+  expect(uuids.map((uuid) => fromUUIDv7(uuid, "user_"))).toEqual(ids);
+  expect([...uuids].sort().map((uuid) => fromUUIDv7(uuid, "user_"))).toEqual(
+    [...ids].sort(),
+  );
+  expect(fromUUIDv7(uuids[0]!.toUpperCase(), "user_")).toBe(ids[0]);
+});
+
+test("fromUUIDv7 should reject UUIDs it cannot convert losslessly", () => {
+  expect(() => fromUUIDv7("not-a-uuid")).toThrow("Invalid UUID format");
+  expect(() => fromUUIDv7("550e8400-e29b-41d4-a716-446655440000")).toThrow(
+    RangeError,
+  );
+  expect(() => fromUUIDv7("018bcfe5-6800-7fff-bfff-ffffffffffff")).toThrow(
+    "UUID cannot be converted to a zeroId without losing data",
+  );
+});
+
+test("fromULID and toULID should keep the timestamp and entropy", () => {
+  const ulid = "01ARZ3NDEKTSV4RRFFQ69G5FAV";
+  const id = fromULID(ulid, { prefix: "user_" });
+
+  expect(extractTimestamp(id, "user_")).toBe(1469922850259);
+  expect(id).toHaveLength(5 + 9 + 14);
+  expect(toULID(id, "user_")).toBe(ulid);
+  expect(toULID(fromULID(ulid.toLowerCase()))).toBe(ulid);
+
+  const short = zeroIdAt(1700000000000);
+  expect(fromULID(toULID(short), { randomLength: 7 })).toBe(short);
+  expect(() => fromULID(ulid, { randomLength: 7 })).toThrow(
+    LossyConversionError,
+  );
+});
+
+test("fromKSUID and toKSUID should keep the timestamp and payload", () => {
+  const ksuid = "0ujtsYcgvSTl8PAuAdqWYSMnLOv";
+  const id = fromKSUID(ksuid);
+
+  expect(extractTimestamp(id)).toBe(1507608047000);
+  expect(toKSUID(id)).toBe(ksuid);
+  expect(() => toKSUID(zeroIdAt(1700000000123))).toThrow(LossyConversionError);
+  expect(() => fromKSUID("not-a-ksuid")).toThrow("Invalid KSUID format");
+});
+
+test("fromSnowflake and toSnowflake should convert where the bits fit", () => {
+  const discordEpoch = 1420070400000;
+  const snowflake = "175928847299117063";
+  const id = fromSnowflake(snowflake, { epoch: discordEpoch });
+
+  expect(extractTimestamp(id)).toBe(1462015105796);
+  expect(toSnowflake(id, "", { epoch: discordEpoch })).toBe(snowflake);
+  expect(fromSnowflake(BigInt(snowflake), { epoch: discordEpoch })).toBe(id);
+
+  const error = (() => {
+    try {
+      toSnowflake(zeroId());
+    } catch (error) {
+      return error;
+    }
+  })();
+  expect(error).toBeInstanceOf(LossyConversionError);
+  expect((error as LossyConversionError).format).toBe("snowflake");
+});
+
+test("idRangeFor should select IDs by time with string comparison", () => {
+  const generator = createZeroIdGenerator({ prefix: "order_", checksum: true });
+  const timestamps = [
+    1699999999999, 1700000000000, 1700000000500, 1700000001000, 1700000001001,
+  ];
+  const ids = timestamps.flatMap((timestamp) => [
+    generator.at(timestamp),
+    generator.at(timestamp, { metadata: { region: "eu", total: 99.5 } }),
+    generator.at(timestamp, { randomLength: 20 }),
+  ]);
+  ids.push(
+    ...createZeroIdGenerator({
+      prefix: "order_",
+      monotonic: true,
+      clock: () => 1700000001000,
+    }).batch(1000),
+  );
+
+  const { min, max } = idRangeFor(1700000000000, 1700000001000, "order_");
+  const selected = ids.filter((id) => id >= min && id <= max);
+
+  expect(selected).toHaveLength(ids.length - 6);
+  for (const id of selected) {
+    expect(compareZeroIds(min, id, "order_")).toBeLessThanOrEqual(0);
+    expect(compareZeroIds(max, id, "order_")).toBeGreaterThanOrEqual(0);
+  }
+});
+
+test("minIdAt and maxIdAt should bound every ID at a timestamp", () => {
+  const generator = createZeroIdGenerator({ monotonic: true });
+  const ids = generator.batch(1000);
+  const timestamp = extractTimestamp(ids[0]!)!;
+  const sameMs = ids.filter((id) => extractTimestamp(id) === timestamp);
+
+  expect(sameMs.every((id) => id > minIdAt(timestamp))).toBe(true);
+  expect(sameMs.every((id) => id < maxIdAt(timestamp))).toBe(true);
+  expect(maxIdAt(timestamp) < minIdAt(timestamp + 1)).toBe(true);
+  expect(maxIdAt(timestamp - 1) < minIdAt(timestamp)).toBe(true);
+
+  const versioned = zeroIdAt(timestamp, { versioned: true, checksum: true });
+  expect(versioned > minIdAt(timestamp, { versioned: true })).toBe(true);
+  expect(versioned < maxIdAt(timestamp, { versioned: true })).toBe(true);
+
+  const crockford = zeroIdAt(timestamp, { alphabet: "crockford" });
+  expect(crockford > minIdAt(timestamp, { alphabet: "crockford" })).toBe(true);
+  expect(crockford < maxIdAt(timestamp, { alphabet: "crockford" })).toBe(true);
+
+  expect(() => minIdAt(0)).toThrow(RangeError);
+});
+
+test("compareZeroIds should order IDs from the same millisecond", () => {
+  const generator = createZeroIdGenerator({ clock: () => 1700000000000 });
+  const ids = generator.batch(50);
+  const sameCounter = [
+    zeroIdAt(1700000000000),
+    zeroIdAt(1700000000000),
+    zeroIdAt(1700000000000),
+  ];
+
+  expect([...ids].reverse().sort(compareZeroIds)).toEqual(ids);
+  expect([...sameCounter].sort(compareZeroIds)).toEqual(
+    [...sameCounter].sort(),
+  );
+  expect(compareZeroIds(sameCounter[0]!, sameCounter[1]!)).not.toBe(0);
+});
+
+test("compareZeroIds should check the prefix and throw parse errors", () => {
+  const id = zeroId({ prefix: "user_" });
+  const error = (() => {
+    try {
+      compareZeroIds(id, "user_abc", "user_");
+    } catch (error) {
+      return error;
+    }
+  })();
+
+  expect(() => compareZeroIds(id, zeroId({ prefix: "org_" }), "user_")).toThrow(
+    ZeroIdParseError,
+  );
+  expect(error).toBeInstanceOf(ZeroIdParseError);
+  expect((error as ZeroIdParseError).code).toBe("TOO_SHORT");
+});
+
+test("compareZeroIds should group or ignore mixed prefixes", () => {
+  const user = zeroIdAt(1600000000000, { prefix: "user_" });
+  const order = zeroIdAt(1700000000000, { prefix: "order_" });
+  const org = zeroIdAt(1650000000000, { prefix: "org_" });
+  const ids = [order, user, org];
+
+  expect(
+    [...ids].sort((a, b) => compareZeroIds(a, b, { mixedPrefixes: "group" })),
+  ).toEqual([order, org, user]);
+  expect(
+    [...ids].sort((a, b) => compareZeroIds(a, b, { mixedPrefixes: "ignore" })),
+  ).toEqual([user, org, order]);
+  expect(
+    [...ids].sort((a, b) =>
+      compareZeroIds(a, b, {
+        mixedPrefixes: "ignore",
+        knownPrefixes: ["user_", "order_", "org_"],
+      }),
+    ),
+  ).toEqual([user, org, order]);
+});
+
+test("decodeZeroId should expose the anatomy of an ID", () => {
+  const generator = createZeroIdGenerator({
+    prefix: "evt_",
+    clock: () => 1700000000000,
+    checksum: "mod3833",
+  });
+  const ids = generator.batch(3, { metadata: { kind: "click" } });
+  const decoded = ids.map((id) => generator.decode(id)!);
+
+  expect(decoded.map((value) => value.counter)).toEqual([0, 1, 2]);
+  expect(decoded[1]).toMatchObject({
+    timestamp: 1700000000000,
+    prefix: "evt_",
+    checksum: "mod3833",
+    metadata: { kind: "click" },
+  });
+  expect(decoded[1]!.random).toHaveLength(7);
+  expect(ids[1]!.slice(0, -2).endsWith(decoded[1]!.random)).toBe(true);
+
+  const plain = decodeZeroId(zeroIdAt(1700000000000, { randomLength: 10 }))!;
+  expect(plain).toMatchObject({ counter: 0, prefix: "", checksum: null });
+  expect(plain.random).toHaveLength(10);
+});
+
+test("versioned and encrypted IDs should expose their anatomy", async () => {
+  const generator = createZeroIdGenerator({ clock: () => 1700000000000 });
+  generator.next();
+  const versioned = generator.next({ versioned: true, checksum: true });
+
+  expect(decodeZeroId(versioned)).toMatchObject({
+    counter: 1,
+    checksum: "legacy",
+    prefix: "",
+  });
+  expect(decodeZeroId(versioned)!.random).toBe(versioned.slice(11, 18));
+
+  const key = await generateZeroIdKey();
+  const encrypted = await encryptedZeroId({
+    key,
+    prefix: "k_",
+    metadata: { a: 1 },
+    encryptTimestamp: true,
+  });
+  const decrypted = await decryptZeroId(encrypted, key, "k_");
+
+  expect(decrypted).toMatchObject({ prefix: "k_", checksum: null });
+  expect(decrypted!.random).toBe(encrypted.slice(-7));
+});
+
+test("zeroIdSchema should implement Standard Schema", async () => {
+  const schema = zeroIdSchema({ prefix: "user_", checksum: true });
+  const id = zeroIdAt(1700000000000, { prefix: "user_", checksum: true });
+
+  expectTypeOf(schema).toMatchTypeOf<
+    StandardSchemaV1<string, DecodedZeroId & { id: ZeroIdOf<"user_"> }>
+  >();
+  expect(schema["~standard"]).toMatchObject({ version: 1, vendor: "zero-id" });
+  expect(await schema["~standard"].validate(id)).toEqual({
+    value: { ...decodeZeroId(id, "user_", { checksum: true }), id },
+  });
+});
+
+test("zeroIdSchema should report prefix, checksum and type issues", () => {
+  const { validate } = zeroIdSchema({ prefix: "user_", checksum: true })[
+    "~standard"
+  ];
+
+  expect(validate(zeroId({ prefix: "org_", checksum: true })).issues).toEqual([
+    { message: 'Invalid zeroId: expected prefix "user_"' },
+  ]);
+  expect(validate(zeroId({ prefix: "user_" })).issues).toHaveLength(1);
+  expect(validate(42).issues).toEqual([
+    { message: "Expected a zeroId string" },
+  ]);
+});
+
+test("zeroIdSchema should enforce maxAge and decode typed metadata", () => {
+  const schema = zeroIdSchema({
+    prefix: "order_",
+    maxAge: 60_000,
+    metadataSchema: orderSchema,
+  });
+  const fresh = zeroId({
+    prefix: "order_",
+    metadata: { amount: 5, currency: "EUR" },
+  });
+  const stale = zeroIdAt(Date.now() - 120_000, {
+    prefix: "order_",
+    metadata: { amount: 5, currency: "EUR" },
+  });
+  const result = schema["~standard"].validate(fresh);
+
+  expect(result.issues).toBeUndefined();
+  if (!result.issues) {
+    expectTypeOf(result.value.metadata).toEqualTypeOf<
+      | { amount: number; currency: string; quantity?: number; gift?: boolean }
+      | undefined
+    >();
+    expectTypeOf(result.value.id).toEqualTypeOf<`order_${string}`>();
+    expect(result.value.metadata).toEqual({ amount: 5, currency: "EUR" });
+  }
+  expect(schema["~standard"].validate(stale).issues).toEqual([
+    { message: "Invalid zeroId: older than 60000ms" },
+  ]);
+});
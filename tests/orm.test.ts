@@ -0,0 +1,204 @@
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/sql-js";
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+  Kysely,
+  SqliteDialect,
+  type Generated,
+  type SqliteDatabase,
+} from "kysely";
+import initSqlJs, { type BindParams, type Database } from "sql.js";
+import { beforeEach, expect, test } from "vitest";
+import { decodeZeroId, toBuffer, zeroIdAt, type ZeroIdOf } from "../src";
+import { createdBetween, sqliteZeroId } from "../src/drizzle";
+import {
+  createdBetween as kyselyCreatedBetween,
+  zeroIdPlugin,
+  type ZeroIdColumn,
+} from "../src/kysely";
+import { zeroIdExtension, zeroIdFilter } from "../src/prisma";
+
+type UserId = ZeroIdOf<"user_">;
+type FileId = ZeroIdOf<"file_">;
+
+const SQL = await initSqlJs();
+let sqlite: Database;
+
+beforeEach(() => {
+  sqlite = new SQL.Database();
+  sqlite.run("create table users (id text primary key, name text)");
+  sqlite.run("create table files (id blob primary key, name text)");
+});
+
+const users = sqliteTable("users", {
+  id: sqliteZeroId("id", { prefix: "user_" }).primaryKey(),
+  name: text("name"),
+});
+
+const files = sqliteTable("files", {
+  id: sqliteZeroId("id", { prefix: "file_", storage: "binary" }).primaryKey(),
+  name: text("name"),
+});
+
+function sqlJsDatabase(database: Database): SqliteDatabase {
+  return {
+    close: () => database.close(),
+    prepare(query) {
+      const rows = (parameters: readonly unknown[]) => {
+        const statement = database.prepare(query);
+        const result = [];
+        statement.bind(parameters as BindParams);
+        while (statement.step()) result.push(statement.getAsObject());
+        statement.free();
+        return result;
+      };
+
+      return {
+        reader: /^\s*select|\breturning\b/i.test(query),
+        all: rows,
+        run: (parameters) => {
+          rows(parameters);
+          return { changes: database.getRowsModified(), lastInsertRowid: 0 };
+        },
+        iterate: (parameters) => rows(parameters)[Symbol.iterator](),
+      };
+    },
+  };
+}
+
+test("drizzle columns should generate and enforce prefixed IDs", () => {
+  const db = drizzle(sqlite);
+  const [user] = db.insert(users).values({ name: "Ada" }).returning().all();
+
+  expect(decodeZeroId(user!.id, "user_")).not.toBeNull();
+  expect(
+    db.select().from(users).where(eq(users.id, user!.id)).get(),
+  ).toMatchObject({ name: "Ada" });
+  expect(() =>
+    db
+      .insert(users)
+      .values({ id: zeroIdAt(Date.now(), { prefix: "team_" }) as never })
+      .run(),
+  ).toThrow("expected prefix");
+});
+
+test("drizzle binary columns should store 16 bytes", () => {
+  const db = drizzle(sqlite);
+  const [file] = db.insert(files).values({ name: "a.txt" }).returning().all();
+  const [[stored]] = sqlite.exec("select id from files")[0]!.values as [
+    [Uint8Array],
+  ];
+
+  expect(stored).toEqual(toBuffer(file!.id, "file_"));
+  expect(db.select().from(files).get()?.id).toBe(file!.id);
+  expect(() =>
+    sqliteZeroId("id", { storage: "binary", checksum: true }),
+  ).toThrow(RangeError);
+});
+
+test("drizzle createdBetween should filter text and binary IDs by time", () => {
+  const db = drizzle(sqlite);
+  for (const timestamp of [1600000000000, 1700000000000, 1800000000000]) {
+    db.insert(users)
+      .values({ id: zeroIdAt(timestamp, { prefix: "user_" }) as UserId })
+      .run();
+    db.insert(files)
+      .values({ id: zeroIdAt(timestamp, { prefix: "file_" }) as FileId })
+      .run();
+  }
+
+  const from = 1650000000000;
+  const to = 1700000000000;
+
+  expect(
+    db
+      .select()
+      .from(users)
+      .where(createdBetween(users.id, from, to, { prefix: "user_" }))
+      .all()
+      .map(({ id }) => decodeZeroId(id, "user_")!.timestamp),
+  ).toEqual([1700000000000]);
+  expect(
+    db
+      .select()
+      .from(files)
+      .where(createdBetween(files.id, from, to, { storage: "binary" }))
+      .all()
+      .map(({ id }) => decodeZeroId(id, "file_")!.timestamp),
+  ).toEqual([1700000000000]);
+});
+
+test("kysely plugin should generate and validate IDs on insert", async () => {
+  const db = new Kysely<{
+    users: { id: ZeroIdColumn<"user_">; name: string | null };
+  }>({
+    dialect: new SqliteDialect({ database: sqlJsDatabase(sqlite) }),
+    plugins: [zeroIdPlugin({ users: { prefix: "user_" } })],
+  });
+
+  await db
+    .insertInto("users")
+    .values([
+      { name: "Ada" },
+      { id: zeroIdAt(1700000000000, { prefix: "user_" }), name: "Grace" },
+    ])
+    .execute();
+
+  const rows = await db
+    .selectFrom("users")
+    .selectAll()
+    .where(kyselyCreatedBetween("id", 1690000000000, 1710000000000, "user_"))
+    .execute();
+
+  expect(rows).toEqual([{ id: expect.any(String), name: "Grace" }]);
+  expect(
+    decodeZeroId(
+      (await db.selectFrom("users").select("id").execute())[0]!.id,
+      "user_",
+    ),
+  ).not.toBeNull();
+  await expect(
+    db.insertInto("users").values({ id: "user_nope" }).execute(),
+  ).rejects.toThrow("Invalid zeroId");
+
+  const plain = new Kysely<{ users: { id: Generated<string> } }>({
+    dialect: new SqliteDialect({ database: sqlJsDatabase(sqlite) }),
+    plugins: [zeroIdPlugin({ posts: {} })],
+  });
+  await plain.insertInto("users").values({ id: "user-1" }).execute();
+  expect(sqlite.exec("select id from users where id = 'user-1'")).toHaveLength(
+    1,
+  );
+});
+
+test("prisma extension should fill and validate IDs", async () => {
+  const { create, createMany, upsert } = zeroIdExtension({
+    User: { prefix: "user_" },
+  }).query.$allModels;
+  const query = async (args: Record<string, unknown>) => args;
+
+  const created = (await create({
+    model: "User",
+    args: { data: { name: "Ada" } },
+    query,
+  })) as { data: { id: string } };
+  expect(decodeZeroId(created.data.id, "user_")).not.toBeNull();
+
+  const many = (await createMany({
+    model: "User",
+    args: { data: [{}, {}] },
+    query,
+  })) as { data: { id: string }[] };
+  expect(new Set(many.data.map(({ id }) => id)).size).toBe(2);
+
+  await expect(
+    upsert({ model: "User", args: { create: { id: "team_x" } }, query }),
+  ).rejects.toThrow("expected prefix");
+  expect(await create({ model: "Post", args: { data: {} }, query })).toEqual({
+    data: {},
+  });
+  expect(zeroIdFilter(1600000000000, 1700000000000, "user_")).toEqual({
+    gte: expect.stringMatching(/^user_/),
+    lte: expect.stringMatching(/^user_.*~$/),
+  });
+});
@@ -1,6 +1,13 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
+  entry: [
+    "src/index.ts",
+    "src/cli.ts",
+    "src/drizzle.ts",
+    "src/kysely.ts",
+    "src/prisma.ts",
+  ],
   // ...config options
   minify: true,
 });